@@ -1,13 +1,25 @@
 /**
  * Script to create an External API Key for the Tauri desktop app
  * 
- * Usage: npx tsx scripts/create-api-key.ts
+ * Usage: npx tsx scripts/create-api-key.ts [scopes]
+ *   scopes: comma-separated READ_ONLY, INGEST, QUERY, WORKFLOWS (default: INGEST)
+ *
+ * Tenant admins can also create, rotate and revoke keys in Settings → API Keys
  */
 
 import { prisma } from '../src/lib/db';
 import { randomBytes } from 'crypto';
+import { createApiKey, parseApiKeyInput } from '../src/lib/api_keys';
 
 async function main() {
+  const input = parseApiKeyInput({
+    label: 'FileSense Desktop App',
+    scopes: (process.argv[2] || 'INGEST').split(',').map(scope => scope.trim().toUpperCase()),
+  });
+  if ('error' in input) {
+    throw new Error(input.error);
+  }
+
   // Get the first tenant (or create demo tenant)
   let tenant = await prisma.tenant.findFirst();
   
@@ -37,17 +49,8 @@ async function main() {
     console.log(`✓ Created user: ${user.name} (${user.email})`);
   }
 
-  // Generate a random API key
-  const apiKey = `KORASENSE_${randomBytes(32).toString('hex')}`;
-
-  // Create the external API key
-  const externalKey = await prisma.externalApiKey.create({
-    data: {
-      key: apiKey,
-      label: 'FileSense Desktop App',
-      tenantId: tenant.id,
-    },
-  });
+  // Only the hash is stored: this is the one time the key is shown
+  const { apiKey: externalKey, key: apiKey } = await createApiKey(tenant.id, input, user.id);
 
   console.log('\n' + '='.repeat(80));
   console.log('✅ API Key Created Successfully!');
@@ -56,6 +59,7 @@ async function main() {
   console.log(`  Label:       ${externalKey.label}`);
   console.log(`  Tenant:      ${tenant.name} (${tenant.slug})`);
   console.log(`  User:        ${user.name} (${user.email})`);
+  console.log(`  Scopes:      ${externalKey.scopes.join(', ')}`);
   console.log(`  Created:     ${externalKey.createdAt.toISOString()}`);
   console.log(`  Expires:     Never`);
   console.log('\n' + '-'.repeat(80));
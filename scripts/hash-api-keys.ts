@@ -0,0 +1,88 @@
+/**
+ * Script to hash plaintext external API keys in place
+ * Run once on a database created before keys were hashed, BEFORE applying the
+ * current schema (which drops the plaintext "key" column). Existing keys keep
+ * working: each key is hashed into "keyHash", its first 16 characters become
+ * the visible prefix, and it gets the scopes covering what keys could do
+ * before scopes existed (READ_ONLY, INGEST, QUERY)
+ * Does nothing on databases without the plaintext column
+ *
+ * Usage: npx tsx scripts/hash-api-keys.ts
+ */
+
+// Load environment variables FIRST before any imports
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+// Leaves "ExternalApiKey" exactly as prisma/schema.prisma describes it
+const STATEMENTS = [
+  `DO $$ BEGIN
+    CREATE TYPE "ApiKeyScope" AS ENUM ('READ_ONLY', 'INGEST', 'QUERY', 'WORKFLOWS');
+  EXCEPTION WHEN duplicate_object THEN NULL;
+  END $$`,
+  // New columns nullable until existing rows are backfilled
+  `ALTER TABLE "ExternalApiKey"
+    ADD COLUMN IF NOT EXISTS "keyHash" TEXT,
+    ADD COLUMN IF NOT EXISTS "prefix" TEXT,
+    ADD COLUMN IF NOT EXISTS "scopes" "ApiKeyScope"[],
+    ADD COLUMN IF NOT EXISTS "expiresAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "lastUsedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "revokedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "createdById" TEXT`,
+  // SHA-256 hex of the key, as hashApiKey() in src/lib/api_keys.ts
+  `UPDATE "ExternalApiKey"
+    SET "keyHash" = encode(sha256(convert_to("key", 'UTF8')), 'hex'),
+        "prefix" = left("key", 16),
+        "scopes" = ARRAY['READ_ONLY', 'INGEST', 'QUERY']::"ApiKeyScope"[]`,
+  `ALTER TABLE "ExternalApiKey"
+    ALTER COLUMN "keyHash" SET NOT NULL,
+    ALTER COLUMN "prefix" SET NOT NULL`,
+  // Drop the plaintext keys
+  `DROP INDEX IF EXISTS "ExternalApiKey_key_key"`,
+  `ALTER TABLE "ExternalApiKey" DROP COLUMN "key"`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS "ExternalApiKey_keyHash_key" ON "ExternalApiKey"("keyHash")`,
+  `CREATE INDEX IF NOT EXISTS "ExternalApiKey_tenantId_idx" ON "ExternalApiKey"("tenantId")`,
+  `DO $$ BEGIN
+    ALTER TABLE "ExternalApiKey" ADD CONSTRAINT "ExternalApiKey_createdById_fkey"
+      FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  EXCEPTION WHEN duplicate_object THEN NULL;
+  END $$`,
+];
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ Error: DATABASE_URL not found in .env.local');
+    process.exit(1);
+  }
+
+  const { prisma } = await import('../src/lib/db');
+  console.log('🔑 Hashing plaintext API keys...\n');
+
+  try {
+    const columns = await prisma.$queryRaw<Array<{ column_name: string }>>`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_name = 'ExternalApiKey' AND column_name = 'key'
+    `;
+    if (columns.length === 0) {
+      console.log('✅ No plaintext "key" column: keys are already hashed');
+      return;
+    }
+
+    const [{ count }] = await prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM "ExternalApiKey"
+    `;
+
+    // One transaction: a failure leaves the plaintext keys untouched
+    await prisma.$transaction(STATEMENTS.map(sql => prisma.$executeRawUnsafe(sql)));
+
+    console.log(`✅ Hashed ${count} key(s) with scopes READ_ONLY, INGEST, QUERY`);
+    console.log('\n💡 Now apply the schema: npx prisma db push');
+  } catch (error: any) {
+    console.error('\n❌ Error hashing API keys:', error.message);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
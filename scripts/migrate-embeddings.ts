@@ -0,0 +1,273 @@
+/**
+ * Script to move a tenant to another embedding provider
+ * Re-embeds every DocumentChunk of the tenant into a new Qdrant collection,
+ * verifies the point count, then switches the tenant's active collection.
+ * Progress is saved after every batch; re-running resumes where it stopped.
+ * Ingestion jobs of the tenant are not claimed while the migration runs.
+ *
+ * Usage: npx tsx scripts/migrate-embeddings.ts --tenant <slug|id> --provider <name> [options]
+ *
+ * Options:
+ *   --collection <name>  Target collection (default: <QDRANT_COLLECTION_NAME>_<provider>)
+ *   --batch-size <n>     Chunks embedded per batch (default: 32)
+ *   --dry-run            Report what would be migrated without writing anything
+ *   --restart            Discard a previous unfinished migration and start over
+ *   --delete-old         After switching, delete the tenant's points from the old collection
+ */
+
+// Load environment variables FIRST before any imports
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+async function main() {
+  const tenantArg = getArg('tenant');
+  const providerArg = getArg('provider');
+
+  if (!tenantArg || !providerArg) {
+    console.error('❌ Usage: npx tsx scripts/migrate-embeddings.ts --tenant <slug|id> --provider <name> [--dry-run]');
+    process.exit(1);
+  }
+
+  const dryRun = hasFlag('dry-run');
+  const batchSize = parseInt(getArg('batch-size') || '32', 10);
+
+  // Import after env vars are loaded
+  const { prisma } = await import('../src/lib/db');
+  const { qdrant, DEFAULT_COLLECTION_NAME } = await import('../src/lib/qdrant');
+  const { getEmbeddingProvider, getTenantEmbedding, embedManyForTenant } = await import('../src/lib/embedding_providers');
+  const { chunkToPoint } = await import('../src/lib/ingestion');
+
+  try {
+    const tenant = await prisma.tenant.findFirst({
+      where: { OR: [{ id: tenantArg }, { slug: tenantArg }] },
+    });
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantArg}`);
+    }
+
+    const target = getEmbeddingProvider(providerArg);
+    const toCollection = getArg('collection') || `${DEFAULT_COLLECTION_NAME}_${target.name}`;
+    const current = await getTenantEmbedding(tenant.id);
+    const fromCollection = current.collection.getCollectionName();
+
+    if (toCollection === fromCollection) {
+      throw new Error(`Tenant already uses collection ${toCollection} - choose another --collection`);
+    }
+
+    const targetCollection = qdrant.forCollection(toCollection);
+    const destination = { provider: target, collection: targetCollection };
+
+    // Every chunk, not only those with embeddedAt: chunks ingested before
+    // embeddedAt existed have it unset. Pending chunks are migrated too; their
+    // job re-upserts the same point ids into the new collection after the switch
+    const chunkWhere = { tenantId: tenant.id };
+    const totalChunks = await prisma.documentChunk.count({ where: chunkWhere });
+
+    let migration = await prisma.embeddingMigration.findFirst({
+      where: {
+        tenantId: tenant.id,
+        status: { in: ['RUNNING', 'FAILED'] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (migration && (migration.toProvider !== target.name || migration.toCollection !== toCollection)) {
+      if (!hasFlag('restart')) {
+        throw new Error(
+          `Unfinished migration ${migration.id} targets ${migration.toProvider} in ${migration.toCollection}. ` +
+          `Re-run with the same target to resume, or pass --restart to discard it.`
+        );
+      }
+    }
+
+    console.log('\n' + '='.repeat(80));
+    console.log(`🔁 Embedding migration${dryRun ? ' (dry run)' : ''}`);
+    console.log('='.repeat(80));
+    console.log(`  Tenant:      ${tenant.name} (${tenant.slug})`);
+    console.log(`  From:        ${current.provider.name} (${current.provider.dimension}-dim) in ${fromCollection}`);
+    console.log(`  To:          ${target.name} (${target.dimension}-dim) in ${toCollection}`);
+    console.log(`  Chunks:      ${totalChunks}`);
+
+    if (dryRun) {
+      const existingSize = await targetCollection.getVectorSize();
+      const activeJobs = await prisma.ingestionJob.count({
+        where: { tenantId: tenant.id, status: 'RUNNING' },
+      });
+      const resumable = migration && migration.toProvider === target.name && migration.toCollection === toCollection && !hasFlag('restart');
+
+      console.log(`  Collection:  ${existingSize === null ? 'will be created' : `exists (${existingSize}-dim)`}`);
+      if (existingSize !== null && existingSize !== target.dimension) {
+        console.log(`  ⚠️  Collection dimension does not match ${target.name} - migration would fail`);
+      }
+      if (resumable) {
+        console.log(`  Resume:      ${migration!.migratedChunks} chunks already migrated (${migration!.id})`);
+      }
+      console.log(`  Embed calls: ~${resumable ? Math.max(totalChunks - migration!.migratedChunks, 0) : totalChunks}`);
+      if (activeJobs > 0) {
+        console.log(`  ⚠️  ${activeJobs} ingestion job(s) running - the switch waits until they finish`);
+      }
+      console.log('\nNo changes made.\n');
+      return;
+    }
+
+    if (migration && hasFlag('restart')) {
+      console.log(`\n🗑️  Discarding migration ${migration.id}`);
+      await prisma.embeddingMigration.update({
+        where: { id: migration.id },
+        data: { status: 'FAILED', lastError: 'Discarded by --restart' },
+      });
+      if (await qdrant.forCollection(migration.toCollection).getVectorSize() !== null) {
+        await qdrant.forCollection(migration.toCollection).deletePoints(tenant.id);
+      }
+      migration = null;
+    }
+
+    // Fails if the target collection exists with another dimension
+    await targetCollection.ensureCollection(target.dimension);
+
+    if (migration) {
+      console.log(`\n▶️  Resuming migration ${migration.id} (${migration.migratedChunks} chunks done)`);
+      migration = await prisma.embeddingMigration.update({
+        where: { id: migration.id },
+        data: { status: 'RUNNING', totalChunks, lastError: null },
+      });
+    } else {
+      migration = await prisma.embeddingMigration.create({
+        data: {
+          tenantId: tenant.id,
+          fromProvider: current.provider.name,
+          fromCollection,
+          toProvider: target.name,
+          toDimension: target.dimension,
+          toCollection,
+          totalChunks,
+        },
+      });
+      console.log(`\n▶️  Started migration ${migration.id}`);
+    }
+
+    const migrationId = migration.id;
+    let migratedChunks = migration.migratedChunks;
+    let lastCreatedAt = migration.lastChunkCreatedAt;
+    let lastId = migration.lastChunkId;
+
+    try {
+      // Stream chunks in (createdAt, id) order; chunks created while the
+      // migration runs sort after the cursor and are picked up at the end
+      while (true) {
+        const cursor = lastCreatedAt && lastId
+          ? {
+              OR: [
+                { createdAt: { gt: lastCreatedAt } },
+                { createdAt: lastCreatedAt, id: { gt: lastId } },
+              ],
+            }
+          : {};
+
+        const chunks = await prisma.documentChunk.findMany({
+          where: { ...chunkWhere, ...cursor },
+          include: { document: { select: { category: true, tags: true } } },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: batchSize,
+        });
+
+        if (chunks.length === 0) break;
+
+        const vectors = await embedManyForTenant(destination, chunks.map(c => c.text));
+        const points = chunks.map((chunk, i) => chunkToPoint(chunk, chunk.document, vectors[i]));
+
+        await targetCollection.upsertPoints(points);
+
+        const last = chunks[chunks.length - 1];
+        lastCreatedAt = last.createdAt;
+        lastId = last.id;
+        migratedChunks += chunks.length;
+
+        await prisma.embeddingMigration.update({
+          where: { id: migrationId },
+          data: {
+            migratedChunks,
+            lastChunkCreatedAt: lastCreatedAt,
+            lastChunkId: lastId,
+          },
+        });
+
+        console.log(`  ✓ ${migratedChunks}/${totalChunks} chunks`);
+      }
+
+      // Check, verify and switch in one transaction. No job can be claimed
+      // while this migration is RUNNING (claimJob in src/lib/ingestion.ts),
+      // so none starts writing to the old collection before the switch commits
+      await prisma.$transaction(async tx => {
+        // Jobs claimed before the migration started still write to the old
+        // collection - switching now would strand their points there
+        const runningJobs = await tx.ingestionJob.count({
+          where: { tenantId: tenant.id, status: 'RUNNING' },
+        });
+        if (runningJobs > 0) {
+          throw new Error(`${runningJobs} ingestion job(s) still running. Re-run once they finish to resume and switch.`);
+        }
+
+        // Verify before switching: every chunk of the tenant must have a point
+        const expected = await tx.documentChunk.count({ where: chunkWhere });
+        const actual = await targetCollection.countPoints(tenant.id);
+        console.log(`\n🔍 Verifying: ${actual} points in ${toCollection}, ${expected} chunks`);
+
+        if (actual !== expected) {
+          throw new Error(
+            `Point count mismatch (${actual} points, ${expected} chunks). ` +
+            `Documents may have changed during the migration - re-run to resume, or pass --restart.`
+          );
+        }
+
+        // Queries and ingestion read the tenant's collection from here on
+        await tx.tenantSettings.update({
+          where: { tenantId: tenant.id },
+          data: {
+            embeddingProvider: target.name,
+            embeddingDimension: target.dimension,
+            collectionName: toCollection,
+          },
+        });
+        await tx.embeddingMigration.update({
+          where: { id: migrationId },
+          data: { status: 'COMPLETED', completedAt: new Date() },
+        });
+      }, { timeout: 60_000 });
+
+      console.log(`✅ Tenant ${tenant.slug} now uses ${target.name} in ${toCollection}`);
+    } catch (error: any) {
+      await prisma.embeddingMigration.update({
+        where: { id: migrationId },
+        data: { status: 'FAILED', lastError: error.message || String(error) },
+      });
+      throw error;
+    }
+
+    if (hasFlag('delete-old')) {
+      console.log(`🗑️  Deleting tenant points from ${fromCollection}...`);
+      await current.collection.deletePoints(tenant.id);
+      console.log('✅ Old points deleted');
+    } else {
+      console.log(`\n💡 Old points are kept in ${fromCollection}; pass --delete-old next time to remove them`);
+    }
+
+    console.log('\n' + '='.repeat(80) + '\n');
+  } catch (error: any) {
+    console.error('\n❌ Migration failed:', error.message);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -19,7 +19,8 @@ async function main() {
   }
 
   // Now import qdrant client after env vars are loaded
-  const { qdrant } = await import('../src/lib/qdrant');
+  const { qdrant, DEFAULT_COLLECTION_NAME } = await import('../src/lib/qdrant');
+  const { getDefaultEmbeddingProvider } = await import('../src/lib/embedding_providers');
   console.log('🔧 Setting up Qdrant collection...\n');
 
   try {
@@ -29,7 +30,7 @@ async function main() {
     if (shouldRecreate) {
       console.log('🗑️  Deleting existing collection...');
       try {
-        await fetch(`${process.env.QDRANT_URL}/collections/${process.env.QDRANT_COLLECTION_NAME || 'KORASENSE_chunks'}`, {
+        await fetch(`${process.env.QDRANT_URL}/collections/${DEFAULT_COLLECTION_NAME}`, {
           method: 'DELETE',
           headers: {
             'api-key': process.env.QDRANT_API_KEY || '',
@@ -41,21 +42,24 @@ async function main() {
       }
     }
     
-    console.log('📦 Ensuring collection "KORASENSE_chunks" exists...');
+    console.log(`📦 Ensuring collection "${DEFAULT_COLLECTION_NAME}" exists...`);
     
-    // Get vector size from environment variable
-    const useLocalEmbeddings = process.env.USE_LOCAL_EMBEDDINGS === 'true';
-    const vectorSize = useLocalEmbeddings ? 384 : 768;
-    const modelInfo = useLocalEmbeddings ? 'all-MiniLM-L6-v2 (local)' : 'text-embedding-004';
+    // Vector size comes from the default embedding provider (EMBEDDING_PROVIDER)
+    const provider = getDefaultEmbeddingProvider();
+    const vectorSize = provider.dimension;
+    const modelInfo = `${provider.name}: ${provider.description}`;
     
     console.log(`   Using ${modelInfo} with ${vectorSize} dimensions`);
     
-    // This will create the collection if it doesn't exist
+    // Creates the collection, or fails if it exists with another vector size
     await qdrant.ensureCollection(vectorSize);
+
+    // Adds indexes introduced since an existing collection was created (e.g. tags)
+    await qdrant.createPayloadIndexes();
     
     console.log('✅ Collection ready!');
     console.log('\nCollection Info:');
-    console.log('  Name: KORASENSE_chunks');
+    console.log(`  Name: ${DEFAULT_COLLECTION_NAME}`);
     console.log(`  Vector size: ${vectorSize} (${modelInfo})`);
     console.log('  Distance: Cosine');
     console.log('  Status: Ready');
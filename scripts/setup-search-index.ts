@@ -0,0 +1,39 @@
+/**
+ * Script to create the full-text search index used by hybrid retrieval
+ * Without it keyword search still works, but scans every chunk
+ * 
+ * Usage: npx tsx scripts/setup-search-index.ts
+ */
+
+// Load environment variables FIRST before any imports
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ Error: DATABASE_URL not found in .env.local');
+    process.exit(1);
+  }
+
+  const { prisma } = await import('../src/lib/db');
+  console.log('🔧 Setting up keyword search index...\n');
+
+  try {
+    // Must match the to_tsvector('english', "text") expression in src/lib/retrieval.ts
+    await prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "DocumentChunk_text_fts_idx"
+      ON "DocumentChunk"
+      USING GIN (to_tsvector('english', "text"))
+    `);
+
+    console.log('✅ Index "DocumentChunk_text_fts_idx" ready');
+    console.log('\n💡 Tune fusion per tenant with PUT /api/settings/retrieval');
+  } catch (error: any) {
+    console.error('\n❌ Error creating search index:', error.message);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
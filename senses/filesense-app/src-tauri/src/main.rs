@@ -179,9 +179,11 @@ async fn start_watching(
                     .mime_str(file_type)
                     .unwrap();
                 
+                // sourcePath lets the backend version re-sent files instead of duplicating them
                 let form = reqwest::multipart::Form::new()
                     .part("file", part)
-                    .text("tenantId", tenant_id.clone());
+                    .text("tenantId", tenant_id.clone())
+                    .text("sourcePath", file_path.clone());
                 
                 match client
                     .post(&url)
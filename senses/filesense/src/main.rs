@@ -28,6 +28,17 @@ struct Config {
     api_key: String,
     backend_url: String,
     folders: Vec<String>,
+    #[serde(default)]
+    rules: Vec<FolderRule>,
+}
+
+/// Tags (and optionally a category) for every file under a folder
+#[derive(Debug, Deserialize)]
+struct FolderRule {
+    folder: String,
+    #[serde(default)]
+    tags: Vec<String>,
+    category: Option<String>,
 }
 
 #[derive(Debug, Serialize)]
@@ -36,7 +47,9 @@ struct IngestPayload {
     api_key: String,
     file_name: String,
     doc_type_hint: String,
+    tags: Vec<String>,
     content: String,
+    source_path: String,
 }
 
 #[tokio::main]
@@ -175,14 +188,18 @@ async fn ingest_file(path: &PathBuf, config: &Config) -> Result<()> {
         .to_string_lossy()
         .to_string();
 
-    let doc_type_hint = guess_doc_type(&file_name, path);
+    let (tags, rule_category) = apply_rules(path, &config.rules);
+    let doc_type_hint = rule_category.unwrap_or_else(|| guess_doc_type(&file_name, path));
 
     let payload = IngestPayload {
         tenant_slug: config.tenant_slug.clone(),
         api_key: config.api_key.clone(),
         file_name,
         doc_type_hint,
+        tags,
         content,
+        // Lets the backend version re-sent files instead of duplicating them
+        source_path: path.to_string_lossy().to_string(),
     };
 
     let client = reqwest::Client::new();
@@ -205,6 +222,34 @@ async fn ingest_file(path: &PathBuf, config: &Config) -> Result<()> {
     Ok(())
 }
 
+/// Collect the tags of every rule whose folder contains the file
+/// The category of the most specific (longest) matching folder wins
+fn apply_rules(path: &PathBuf, rules: &[FolderRule]) -> (Vec<String>, Option<String>) {
+    let mut tags: Vec<String> = Vec::new();
+    let mut category: Option<(usize, String)> = None;
+
+    for rule in rules {
+        if !path.starts_with(&rule.folder) {
+            continue;
+        }
+
+        for tag in &rule.tags {
+            if !tags.contains(tag) {
+                tags.push(tag.clone());
+            }
+        }
+
+        if let Some(rule_category) = &rule.category {
+            let depth = rule.folder.len();
+            if category.as_ref().map_or(true, |(best, _)| depth > *best) {
+                category = Some((depth, rule_category.clone()));
+            }
+        }
+    }
+
+    (tags, category.map(|(_, c)| c))
+}
+
 fn guess_doc_type(file_name: &str, path: &PathBuf) -> String {
     let file_name_lower = file_name.to_lowercase();
     let path_str = path.to_string_lossy().to_lowercase();
@@ -0,0 +1,101 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { isPublicDemoTenant, isSuperAdmin } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+
+const headerStyle = {
+  padding: 'var(--spacing-sm) var(--spacing-md)',
+  textAlign: 'left' as const,
+  fontSize: '0.75rem',
+  fontWeight: 500,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const cellStyle = {
+  padding: 'var(--spacing-md)',
+  fontSize: '0.875rem',
+  color: 'var(--text-secondary)',
+};
+
+/**
+ * Platform console: every tenant, for SUPER_ADMIN users only
+ */
+export default async function AdminPage() {
+  const user = await getCurrentUser();
+
+  if (!user || !(await isSuperAdmin(user.id))) {
+    redirect('/dashboard');
+  }
+
+  const tenants = await prisma.tenant.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: {
+      _count: {
+        select: {
+          members: true,
+          documents: true,
+          qaSessions: true,
+          externalApiKeys: true,
+        },
+      },
+    },
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto" style={{ padding: 'var(--spacing-xl)' }}>
+      <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
+        <h1 style={{
+          fontSize: '2rem',
+          fontWeight: 700,
+          marginBottom: 'var(--spacing-sm)',
+          color: 'var(--text-primary)'
+        }}>
+          Admin
+        </h1>
+        <p className="text-secondary">
+          {tenants.length} tenant{tenants.length === 1 ? '' : 's'} on this platform
+        </p>
+      </div>
+
+      <div className="card" style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ backgroundColor: 'var(--bg-tertiary)', borderBottom: '1px solid var(--border)' }}>
+              <th className="text-tertiary" style={headerStyle}>Tenant</th>
+              <th className="text-tertiary" style={headerStyle}>Members</th>
+              <th className="text-tertiary" style={headerStyle}>Documents</th>
+              <th className="text-tertiary" style={headerStyle}>Questions</th>
+              <th className="text-tertiary" style={headerStyle}>API Keys</th>
+              <th className="text-tertiary" style={headerStyle}>Created</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tenants.map((tenant) => (
+              <tr key={tenant.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                <td style={{ padding: 'var(--spacing-md)' }}>
+                  <div style={{ fontWeight: 500, color: 'var(--text-primary)', fontSize: '0.9375rem' }}>
+                    {tenant.name}
+                    {isPublicDemoTenant(tenant.slug) && (
+                      <span className="accent-text" style={{ marginLeft: 'var(--spacing-xs)', fontSize: '0.75rem', fontWeight: 600 }}>
+                        PUBLIC DEMO
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginTop: '0.125rem' }}>
+                    {tenant.slug}
+                  </div>
+                </td>
+                <td style={cellStyle}>{tenant._count.members}</td>
+                <td style={cellStyle}>{tenant._count.documents}</td>
+                <td style={cellStyle}>{tenant._count.qaSessions}</td>
+                <td style={cellStyle}>{tenant._count.externalApiKeys}</td>
+                <td style={cellStyle}>{tenant.createdAt.toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
-import { getCurrentUser, getUserTenants } from '@/lib/auth';
-import { getRecentSessions } from '@/lib/metrics';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
 import DemoConsole from '@/components/demo/DemoConsole';
 
 export default async function ChatPage() {
@@ -9,15 +8,12 @@ export default async function ChatPage() {
     return null;
   }
 
-  const tenants = await getUserTenants(user.id);
-  const currentTenant = tenants[0];
+  const currentTenant = await getActiveTenant(user.id);
 
   if (!currentTenant) {
     return <div>No tenant found</div>;
   }
 
-  const recentSessions = await getRecentSessions(currentTenant.id, 10);
-
   return (
     <div style={{ maxWidth: '100%', width: '100%' }}>
       <div style={{ 
@@ -51,12 +47,7 @@ export default async function ChatPage() {
 
       <DemoConsole 
         tenantSlug={currentTenant.slug}
-        initialHistory={recentSessions.map(s => ({
-          question: s.question,
-          answer: s.finalAnswer,
-          trace: s.agentTrace as any,
-          qualityScore: s.qualityScore || 0,
-        }))}
+        tenantId={currentTenant.id}
       />
     </div>
   );
@@ -1,6 +1,8 @@
-import { getCurrentUser, getUserTenants } from '@/lib/auth';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
 import { getAverageQualityScore, getAverageLatency, getFeedbackCounts } from '@/lib/metrics';
 import { prisma } from '@/lib/db';
+import { getTenantRole } from '@/lib/authz';
+import { hasPermission } from '@/lib/permissions';
 import Link from 'next/link';
 
 export default async function DashboardPage() {
@@ -10,8 +12,7 @@ export default async function DashboardPage() {
     return null;
   }
 
-  const tenants = await getUserTenants(user.id);
-  const currentTenant = tenants[0]; // For MVP, use first tenant
+  const currentTenant = await getActiveTenant(user.id);
 
   if (!currentTenant) {
     return (
@@ -24,6 +25,9 @@ export default async function DashboardPage() {
     );
   }
 
+  // Quality, latency and feedback are evaluation data: TENANT_ADMIN and up
+  const canViewEvaluation = hasPermission(await getTenantRole(user.id, currentTenant.id), 'evaluation:view');
+
   // Get metrics
   const [avgQuality, avgLatency, feedback, todayQueries, totalDocs] = await Promise.all([
     getAverageQualityScore(currentTenant.id),
@@ -59,43 +63,45 @@ export default async function DashboardPage() {
       </div>
 
       {/* Metrics Cards */}
-      <div className="grid md:grid-cols-4 gap-6" style={{ marginBottom: 'var(--spacing-2xl)' }}>
-        <div className="card">
-          <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
-            Today&apos;s Queries
-          </div>
-          <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
-            {todayQueries}
-          </div>
-        </div>
-        
-        <div className="card accent-border">
-          <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
-            Avg Quality Score
-          </div>
-          <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--accent)', letterSpacing: '-0.02em' }}>
-            {avgQuality ? (avgQuality * 100).toFixed(0) : '—'}%
-          </div>
-        </div>
-        
-        <div className="card">
-          <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
-            Avg Latency
+      {canViewEvaluation && (
+        <div className="grid md:grid-cols-4 gap-6" style={{ marginBottom: 'var(--spacing-2xl)' }}>
+          <div className="card">
+            <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
+              Today&apos;s Queries
+            </div>
+            <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
+              {todayQueries}
+            </div>
           </div>
-          <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
-            {avgLatency ? (avgLatency / 1000).toFixed(1) : '—'}s
+          
+          <div className="card accent-border">
+            <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
+              Avg Quality Score
+            </div>
+            <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--accent)', letterSpacing: '-0.02em' }}>
+              {avgQuality ? (avgQuality * 100).toFixed(0) : '—'}%
+            </div>
           </div>
-        </div>
-        
-        <div className="card">
-          <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
-            Feedback
+          
+          <div className="card">
+            <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
+              Avg Latency
+            </div>
+            <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
+              {avgLatency ? (avgLatency / 1000).toFixed(1) : '—'}s
+            </div>
           </div>
-          <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
-            {feedback.helpful} 👍 / {feedback.unhelpful} 👎
+          
+          <div className="card">
+            <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginBottom: 'var(--spacing-xs)', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 500 }}>
+              Feedback
+            </div>
+            <div style={{ fontSize: '2.25rem', fontWeight: 700, color: 'var(--text-primary)', letterSpacing: '-0.02em' }}>
+              {feedback.helpful} 👍 / {feedback.unhelpful} 👎
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Quick Actions */}
       <div className="grid md:grid-cols-3 gap-6" style={{ marginBottom: 'var(--spacing-2xl)' }}>
@@ -1,5 +1,7 @@
-import { getCurrentUser, getUserTenants } from '@/lib/auth';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { getTenantRole } from '@/lib/authz';
+import { hasPermission } from '@/lib/permissions';
 import DocumentList from '@/components/knowledge/DocumentList';
 import DocumentUpload from '@/components/knowledge/DocumentUpload';
 
@@ -10,13 +12,14 @@ export default async function KnowledgePage() {
     return null;
   }
 
-  const tenants = await getUserTenants(user.id);
-  const currentTenant = tenants[0];
+  const currentTenant = await getActiveTenant(user.id);
 
   if (!currentTenant) {
     return <div>No tenant found</div>;
   }
 
+  const role = await getTenantRole(user.id, currentTenant.id);
+
   const documents = await prisma.document.findMany({
     where: { tenantId: currentTenant.id },
     orderBy: { createdAt: 'desc' },
@@ -43,9 +46,11 @@ export default async function KnowledgePage() {
         </p>
       </div>
 
-      <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
-        <DocumentUpload tenantId={currentTenant.id} />
-      </div>
+      {hasPermission(role, 'documents:ingest') && (
+        <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
+          <DocumentUpload tenantId={currentTenant.id} />
+        </div>
+      )}
 
       <div className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
         <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: 'var(--spacing-xs)', color: 'var(--text-primary)' }}>
@@ -91,7 +96,7 @@ export default async function KnowledgePage() {
         </div>
       </div>
 
-      <DocumentList documents={documents} />
+      <DocumentList documents={documents} canDelete={hasPermission(role, 'documents:delete')} />
     </div>
   );
 }
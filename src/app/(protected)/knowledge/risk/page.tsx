@@ -1,4 +1,4 @@
-import { getCurrentUser, getUserTenants } from '@/lib/auth';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
 import RiskConsole from '@/components/risk/RiskConsole';
 
 export default async function RiskPage() {
@@ -8,8 +8,7 @@ export default async function RiskPage() {
     return null;
   }
 
-  const tenants = await getUserTenants(user.id);
-  const currentTenant = tenants[0];
+  const currentTenant = await getActiveTenant(user.id);
 
   if (!currentTenant) {
     return <div>No tenant found</div>;
@@ -1,6 +1,8 @@
 import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
-import { getCurrentUser, getOrCreateDefaultTenant } from '@/lib/auth';
+import { getCurrentUser, getOrCreateDefaultTenant, getUserTenants } from '@/lib/auth';
+import { getTenantRole } from '@/lib/authz';
+import { getRolePermissions } from '@/lib/permissions';
 import Navigation from '@/components/navigation/Navigation';
 
 export default async function ProtectedLayout({
@@ -20,12 +22,21 @@ export default async function ProtectedLayout({
     redirect('/sign-in');
   }
 
-  // Ensure user has a tenant
-  await getOrCreateDefaultTenant(user.id);
+  // Ensure user has a tenant; resolves to the active one
+  const tenant = await getOrCreateDefaultTenant(user.id);
+  const [role, tenants] = await Promise.all([
+    getTenantRole(user.id, tenant.id),
+    getUserTenants(user.id),
+  ]);
 
   return (
     <div style={{ minHeight: '100vh', background: 'var(--bg-primary)' }}>
-      <Navigation user={user} />
+      <Navigation
+        user={user}
+        permissions={getRolePermissions(role)}
+        tenants={tenants.map(t => ({ id: t.id, name: t.name }))}
+        activeTenantId={tenant.id}
+      />
       <main style={{
         maxWidth: '1400px',
         margin: '0 auto',
@@ -0,0 +1,56 @@
+import { redirect } from 'next/navigation';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
+import { getTenantRole } from '@/lib/authz';
+import { hasPermission } from '@/lib/permissions';
+import { ROLES, formatInvitation, formatMember, listMembers, listPendingInvitations } from '@/lib/members';
+import MemberManager from '@/components/members/MemberManager';
+
+export default async function MembersPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const currentTenant = await getActiveTenant(user.id);
+
+  if (!currentTenant) {
+    return <div>No tenant found</div>;
+  }
+
+  const role = await getTenantRole(user.id, currentTenant.id);
+  if (!hasPermission(role, 'members:manage')) {
+    redirect('/dashboard');
+  }
+
+  const [members, invitations] = await Promise.all([
+    listMembers(currentTenant.id),
+    listPendingInvitations(currentTenant.id),
+  ]);
+
+  return (
+    <div className="max-w-7xl mx-auto" style={{ padding: 'var(--spacing-xl)' }}>
+      <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
+        <h1 style={{
+          fontSize: '2rem',
+          fontWeight: 700,
+          marginBottom: 'var(--spacing-sm)',
+          color: 'var(--text-primary)'
+        }}>
+          Members
+        </h1>
+        <p className="text-secondary">
+          Invite colleagues into {currentTenant.name} and manage their roles
+        </p>
+      </div>
+
+      <MemberManager
+        tenantId={currentTenant.id}
+        currentUserId={user.id}
+        members={members.map(formatMember)}
+        invitations={invitations.map(formatInvitation)}
+        assignableRoles={ROLES.filter(r => r !== 'SUPER_ADMIN' || role === 'SUPER_ADMIN')}
+      />
+    </div>
+  );
+}
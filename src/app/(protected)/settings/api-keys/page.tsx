@@ -0,0 +1,51 @@
+import { redirect } from 'next/navigation';
+import { getActiveTenant, getCurrentUser } from '@/lib/auth';
+import { getTenantRole } from '@/lib/authz';
+import { API_KEY_SCOPE_PERMISSIONS, hasPermission } from '@/lib/permissions';
+import { API_KEY_SCOPES, formatApiKey, listApiKeys } from '@/lib/api_keys';
+import ApiKeyManager from '@/components/settings/ApiKeyManager';
+
+export default async function ApiKeysPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const currentTenant = await getActiveTenant(user.id);
+
+  if (!currentTenant) {
+    return <div>No tenant found</div>;
+  }
+
+  const role = await getTenantRole(user.id, currentTenant.id);
+  if (!hasPermission(role, 'api_keys:manage')) {
+    redirect('/dashboard');
+  }
+
+  const apiKeys = await listApiKeys(currentTenant.id);
+
+  return (
+    <div className="max-w-7xl mx-auto" style={{ padding: 'var(--spacing-xl)' }}>
+      <div style={{ marginBottom: 'var(--spacing-2xl)' }}>
+        <h1 style={{
+          fontSize: '2rem',
+          fontWeight: 700,
+          marginBottom: 'var(--spacing-sm)',
+          color: 'var(--text-primary)'
+        }}>
+          API Keys
+        </h1>
+        <p className="text-secondary">
+          Keys for FileSense and external integrations of {currentTenant.name}, sent as the x-api-key header
+        </p>
+      </div>
+
+      <ApiKeyManager
+        tenantId={currentTenant.id}
+        apiKeys={apiKeys.map(formatApiKey)}
+        scopes={API_KEY_SCOPES.map(scope => ({ scope, permissions: API_KEY_SCOPE_PERMISSIONS[scope] }))}
+      />
+    </div>
+  );
+}
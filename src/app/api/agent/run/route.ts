@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser, getTenantBySlug } from '@/lib/auth';
-import { runAgentPipeline } from '@/lib/agent_pipeline';
+import { authorizeTenant } from '@/lib/authz';
+import { runQuery } from '@/lib/orchestrator';
+import { formatCitations } from '@/lib/citations';
+import { parseTags } from '@/lib/tags';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,32 +16,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get tenant
-    const tenant = await getTenantBySlug(tenant_slug);
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+    const contextTags = context_tags === undefined ? { tags: [] } : parseTags(context_tags);
+    if ('error' in contextTags) {
+      return NextResponse.json({ error: `Invalid context_tags: ${contextTags.error}` }, { status: 400 });
     }
 
-    // Get current user (optional for external API calls)
-    let userId: string | undefined;
-    try {
-      const user = await getCurrentUser();
-      userId = user?.id;
-    } catch (e) {
-      // External API call without auth
+    // Members, API keys and - on public demo tenants - anyone may query
+    const access = await authorizeTenant(request, { slug: tenant_slug }, 'knowledge:query');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
+    const { tenant } = access;
+    const userId = access.user?.id;
 
     // Run agent pipeline
-    const result = await runAgentPipeline({
+    const result = await runQuery({
+      mode: 'pipeline',
       question,
       tenantId: tenant.id,
       userId,
-      contextTags: context_tags,
+      contextTags: contextTags.tags,
     });
 
     return NextResponse.json({
       session_id: result.sessionId,
       answer: result.answer,
+      citations: formatCitations(result.citations),
       quality_score: result.qualityScore,
       trace: result.trace,
       totalLatencyMs: result.totalLatencyMs,
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { authorizeTenant } from '@/lib/authz';
+import { formatConversation } from '@/lib/conversations';
+import { formatCitations, type Citation } from '@/lib/citations';
+
+/**
+ * Load a conversation the current user owns (and can still access)
+ */
+async function getOwnedConversation(request: NextRequest, id: string) {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  const conversation = await prisma.conversation.findFirst({
+    where: { id, userId: user.id },
+  });
+  if (!conversation) return null;
+
+  const access = await authorizeTenant(request, { id: conversation.tenantId }, 'knowledge:query');
+  if ('error' in access) return null;
+
+  return conversation;
+}
+
+/**
+ * Get a conversation with its turns, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const conversation = await getOwnedConversation(request, id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const sessions = await prisma.qaSession.findMany({
+      where: { conversationId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      ...formatConversation({ ...conversation, _count: { sessions: sessions.length } }),
+      turns: sessions.map(s => ({
+        session_id: s.id,
+        question: s.question,
+        standalone_question: s.rewrittenQuestion,
+        answer: s.finalAnswer,
+        citations: s.citations ? formatCitations(s.citations as unknown as Citation[]) : [],
+        trace: s.agentTrace,
+        quality_score: s.qualityScore,
+        created_at: s.createdAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get conversation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rename a conversation
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const conversation = await getOwnedConversation(request, id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { title } = await request.json();
+    if (typeof title !== 'string' || title.trim().length === 0 || title.length > 200) {
+      return NextResponse.json(
+        { error: 'title must be a non-empty string of at most 200 characters' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.conversation.update({
+      where: { id },
+      data: { title: title.trim() },
+    });
+
+    return NextResponse.json(formatConversation(updated));
+  } catch (error: any) {
+    console.error('Rename conversation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatConversation } from '@/lib/conversations';
+
+/**
+ * List the current user's conversations in a tenant, most recent first
+ * Query params: tenantId
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const access = await authorizeTenant(request, { id: request.nextUrl.searchParams.get('tenantId') }, 'knowledge:query');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant, user } = access;
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        tenantId: tenant.id,
+        userId: user.id,
+        sessions: { some: {} }, // Hide threads whose first question failed
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 50,
+      include: {
+        _count: {
+          select: { sessions: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      conversations: conversations.map(formatConversation),
+    });
+  } catch (error: any) {
+    console.error('List conversations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ChunkStrategy } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { DEFAULT_MAX_CHUNK_TOKENS } from '@/lib/chunking';
+import { getActiveIngestionJob, reindexDocument } from '@/lib/documents';
+import { formatIngestionJob, processIngestionJob } from '@/lib/ingestion';
+
+export const maxDuration = 300;
+
+/**
+ * Re-chunk a document (optionally with a different strategy) and re-embed it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    const access = document && await authorizeTenant(request, { id: document.tenantId }, 'documents:edit');
+    if (!document || !access || ('error' in access && !access.role)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { chunk_strategy, max_chunk_size, overlap } = body;
+
+    if (chunk_strategy && !Object.values(ChunkStrategy).includes(chunk_strategy)) {
+      return NextResponse.json(
+        { error: `Invalid chunk_strategy. Expected one of: ${Object.values(ChunkStrategy).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (max_chunk_size !== undefined && (!Number.isInteger(max_chunk_size) || max_chunk_size <= 0)) {
+      return NextResponse.json(
+        { error: 'max_chunk_size must be a positive integer (tokens)' },
+        { status: 400 }
+      );
+    }
+    if (overlap !== undefined && (!Number.isInteger(overlap) || overlap < 0)) {
+      return NextResponse.json(
+        { error: 'overlap must be a non-negative integer (tokens)' },
+        { status: 400 }
+      );
+    }
+    if (overlap !== undefined && overlap >= (max_chunk_size ?? DEFAULT_MAX_CHUNK_TOKENS)) {
+      return NextResponse.json(
+        { error: 'overlap must be smaller than max_chunk_size' },
+        { status: 400 }
+      );
+    }
+
+    if (await getActiveIngestionJob(id)) {
+      return NextResponse.json(
+        { error: 'Document is still being ingested, try again when the job finishes' },
+        { status: 409 }
+      );
+    }
+
+    const job = await reindexDocument(document, {
+      strategy: chunk_strategy,
+      maxChunkSize: max_chunk_size,
+      overlap,
+    });
+
+    after(async () => {
+      await processIngestionJob(job.id);
+    });
+
+    return NextResponse.json({
+      ...formatIngestionJob(job),
+      status_url: `/api/ingest/jobs/${job.id}`,
+    }, { status: 202 });
+  } catch (error: any) {
+    console.error('Re-index document error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentCategory, type Document } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import type { Permission } from '@/lib/permissions';
+import { deleteDocument, formatDocument, getActiveIngestionJob, updateDocument } from '@/lib/documents';
+import { formatIngestionJob } from '@/lib/ingestion';
+import { parseTags } from '@/lib/tags';
+
+/**
+ * Load a document the caller may act on
+ * Members lacking the permission get a 403; to anyone else outside the
+ * tenant the document does not exist
+ */
+async function getAuthorizedDocument(
+  request: NextRequest,
+  documentId: string,
+  permission: Permission
+): Promise<{ document: Document } | { error: string; status: number }> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+  });
+  if (!document) return { error: 'Document not found', status: 404 };
+
+  const access = await authorizeTenant(request, { id: document.tenantId }, permission);
+  if ('error' in access) {
+    return access.role
+      ? { error: access.error, status: 403 }
+      : { error: 'Document not found', status: 404 };
+  }
+  return { document };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authorized = await getAuthorizedDocument(request, id, 'documents:read');
+    if ('error' in authorized) {
+      return NextResponse.json({ error: authorized.error }, { status: authorized.status });
+    }
+    const { document } = authorized;
+
+    const [chunkCount, versions, jobs] = await Promise.all([
+      prisma.documentChunk.count({ where: { documentId: id } }),
+      prisma.documentVersion.findMany({
+        where: { documentId: id },
+        orderBy: { version: 'desc' },
+      }),
+      prisma.ingestionJob.findMany({
+        where: { documentId: id },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return NextResponse.json({
+      ...formatDocument({ ...document, _count: { chunks: chunkCount } }),
+      versions: versions.map(v => ({
+        version: v.version,
+        content_hash: v.contentHash,
+        original_file_name: v.originalFileName,
+        chunk_count: v.chunkCount,
+        created_at: v.createdAt,
+      })),
+      ingestion_jobs: jobs.map(formatIngestionJob),
+    });
+  } catch (error: any) {
+    console.error('Get document error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authorized = await getAuthorizedDocument(request, id, 'documents:edit');
+    if ('error' in authorized) {
+      return NextResponse.json({ error: authorized.error }, { status: authorized.status });
+    }
+    const { document } = authorized;
+
+    const body = await request.json();
+    const { title, category, tags } = body;
+
+    if (category && !Object.values(DocumentCategory).includes(category)) {
+      return NextResponse.json(
+        { error: `Invalid category. Expected one of: ${Object.values(DocumentCategory).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (title !== undefined && (typeof title !== 'string' || title.trim().length === 0)) {
+      return NextResponse.json({ error: 'title must be a non-empty string' }, { status: 400 });
+    }
+
+    const parsedTags = tags === undefined ? null : parseTags(tags);
+    if (parsedTags && 'error' in parsedTags) {
+      return NextResponse.json({ error: parsedTags.error }, { status: 400 });
+    }
+
+    const updated = await updateDocument(document, {
+      title: title?.trim(),
+      category,
+      tags: parsedTags?.tags,
+    });
+
+    return NextResponse.json(formatDocument(updated));
+  } catch (error: any) {
+    console.error('Update document error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authorized = await getAuthorizedDocument(request, id, 'documents:delete');
+    if ('error' in authorized) {
+      return NextResponse.json({ error: authorized.error }, { status: authorized.status });
+    }
+    const { document } = authorized;
+
+    // Deleting mid-ingestion would let the worker re-upsert the vectors
+    if (await getActiveIngestionJob(id)) {
+      return NextResponse.json(
+        { error: 'Document is still being ingested, try again when the job finishes' },
+        { status: 409 }
+      );
+    }
+
+    await deleteDocument(document);
+
+    return NextResponse.json({ success: true, document_id: id });
+  } catch (error: any) {
+    console.error('Delete document error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
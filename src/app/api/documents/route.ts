@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentCategory, DocumentStatus, DocumentType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatDocument } from '@/lib/documents';
+import { normalizeTag } from '@/lib/tags';
+
+/**
+ * Check an optional query param against a Prisma enum
+ */
+function parseEnumParam<T extends string>(
+  name: string,
+  value: string | null,
+  values: Record<string, T>
+): { value: T } | { error: string } | {} {
+  if (!value) return {};
+  const match = Object.values(values).find(v => v === value);
+  if (!match) {
+    return { error: `Invalid ${name}. Expected one of: ${Object.values(values).join(', ')}` };
+  }
+  return { value: match };
+}
+
+/**
+ * List the tenant's documents
+ * Query params: tenantId (session callers), status, docType (file kind), category,
+ * tag (repeatable; documents carrying every tag)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const access = await authorizeTenant(request, { id: searchParams.get('tenantId') }, 'documents:read');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    const status = searchParams.get('status');
+    const docType = searchParams.get('docType');
+    const category = searchParams.get('category');
+    const tags = searchParams.getAll('tag').map(normalizeTag).filter(Boolean);
+
+    const statusFilter = parseEnumParam('status', status, DocumentStatus);
+    const docTypeFilter = parseEnumParam('docType', docType, DocumentType);
+    const categoryFilter = parseEnumParam('category', category, DocumentCategory);
+    for (const filter of [statusFilter, docTypeFilter, categoryFilter]) {
+      if ('error' in filter) {
+        return NextResponse.json({ error: filter.error }, { status: 400 });
+      }
+    }
+
+    const documents = await prisma.document.findMany({
+      where: {
+        tenantId: tenant.id,
+        ...('value' in statusFilter ? { status: statusFilter.value } : {}),
+        ...('value' in docTypeFilter ? { docType: docTypeFilter.value } : {}),
+        ...('value' in categoryFilter ? { category: categoryFilter.value } : {}),
+        ...(tags.length > 0 ? { tags: { hasEvery: tags } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: {
+          select: { chunks: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      documents: documents.map(formatDocument),
+    });
+  } catch (error: any) {
+    console.error('List documents error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { verifyApiKey } from '@/lib/api_keys';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,25 +17,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Find API key
-    const externalKey = await prisma.externalApiKey.findUnique({
-      where: { key: apiKey },
-      include: {
-        tenant: true,
-      },
-    });
-
-    if (!externalKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 401 }
-      );
+    // Any active key may check itself, whatever its scopes
+    const apiKeyRecord = await verifyApiKey(apiKey);
+    if (!apiKeyRecord) {
+      return NextResponse.json({ error: 'Invalid, expired or revoked API key' }, { status: 401 });
     }
+    const { tenant } = apiKeyRecord;
 
     // Get the first admin user for this tenant
     const tenantMember = await prisma.tenantMember.findFirst({
       where: {
-        tenantId: externalKey.tenantId,
+        tenantId: tenant.id,
         role: 'TENANT_ADMIN',
       },
       include: {
@@ -45,7 +38,7 @@ export async function GET(request: NextRequest) {
     // If no admin, get any member
     const member = tenantMember || await prisma.tenantMember.findFirst({
       where: {
-        tenantId: externalKey.tenantId,
+        tenantId: tenant.id,
       },
       include: {
         user: true,
@@ -66,9 +59,16 @@ export async function GET(request: NextRequest) {
         name: member.user.name,
       },
       tenant: {
-        id: externalKey.tenant.id,
-        name: externalKey.tenant.name,
-        slug: externalKey.tenant.slug,
+        id: tenant.id,
+        name: tenant.name,
+        slug: tenant.slug,
+      },
+      api_key: {
+        id: apiKeyRecord.id,
+        label: apiKeyRecord.label,
+        prefix: apiKeyRecord.prefix,
+        scopes: apiKeyRecord.scopes,
+        expires_at: apiKeyRecord.expiresAt,
       },
     });
   } catch (error: any) {
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyExternalApiKey } from '@/lib/auth';
-import { runAgentPipeline } from '@/lib/agent_pipeline';
+import { authorizeTenant } from '@/lib/authz';
+import { runQuery } from '@/lib/orchestrator';
+import { formatCitations } from '@/lib/citations';
+import { parseTags } from '@/lib/tags';
+import { parseQueryFilter } from '@/lib/query_filter';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,13 +13,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
     }
 
-    const keyRecord = await verifyExternalApiKey(apiKey);
-    if (!keyRecord) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    const access = await authorizeTenant(request, {}, 'knowledge:query');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
 
     const body = await request.json();
-    const { question, context_tags } = body;
+    const { question, context_tags, filter } = body;
 
     if (!question) {
       return NextResponse.json(
@@ -25,16 +28,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const contextTags = context_tags === undefined ? { tags: [] } : parseTags(context_tags);
+    if ('error' in contextTags) {
+      return NextResponse.json({ error: `Invalid context_tags: ${contextTags.error}` }, { status: 400 });
+    }
+
+    const parsedFilter = parseQueryFilter(filter);
+    if ('error' in parsedFilter) {
+      return NextResponse.json({ error: parsedFilter.error }, { status: 400 });
+    }
+
     // Run agent pipeline
-    const result = await runAgentPipeline({
+    const result = await runQuery({
+      mode: 'pipeline',
       question,
-      tenantId: keyRecord.tenant.id,
-      contextTags: context_tags,
+      tenantId: access.tenant.id,
+      contextTags: contextTags.tags,
+      filter: parsedFilter.filter,
     });
 
     return NextResponse.json({
       session_id: result.sessionId,
       answer: result.answer,
+      citations: formatCitations(result.citations),
       quality_score: result.qualityScore,
       trace: result.trace,
       total_latency_ms: result.totalLatencyMs,
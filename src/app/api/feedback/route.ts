@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { authorizeTenant } from '@/lib/authz';
 import { prisma } from '@/lib/db';
 
 export async function POST(request: NextRequest) {
@@ -28,6 +29,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    const access = await authorizeTenant(request, { id: session.tenantId }, 'knowledge:query');
+    if ('error' in access || !access.user) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
     // Create feedback
     const feedback = await prisma.qaFeedback.create({
       data: {
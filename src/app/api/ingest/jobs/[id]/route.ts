@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatIngestionJob } from '@/lib/ingestion';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const job = await prisma.ingestionJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // API key (desktop app) or session (web app), same as /api/ingest
+    const access = await authorizeTenant(request, { id: job.tenantId }, 'documents:read');
+    if ('error' in access) {
+      return access.status === 401
+        ? NextResponse.json({ error: access.error }, { status: 401 })
+        : NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(formatIngestionJob(job));
+  } catch (error: any) {
+    console.error('Get ingestion job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
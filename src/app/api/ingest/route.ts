@@ -1,10 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { prisma } from '@/lib/db';
-import { qdrant } from '@/lib/qdrant';
-import { generateEmbedding } from '@/lib/gemini';
-import { chunkDocument, extractText } from '@/lib/chunking';
-import { getTenantBySlug, verifyExternalApiKey } from '@/lib/auth';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { enqueueIngestion, processIngestionJob } from '@/lib/ingestion';
+import { authorizeTenant } from '@/lib/authz';
+import { DOCUMENT_CATEGORIES, parseCategory } from '@/lib/classification';
+import { updateDocument } from '@/lib/documents';
+import { parseTags } from '@/lib/tags';
+
+// Leaves room for the post-response embedding work started with after()
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,8 +14,10 @@ export async function POST(request: NextRequest) {
     const contentType = request.headers.get('content-type') || '';
     let tenant;
     let file_name: string;
-    let content: string;
-    let doc_type_hint: string | undefined;
+    let content: string | Buffer;
+    let category_hint: string | undefined;
+    let source_path: string | undefined;
+    let tags_input: unknown;
 
     if (contentType.includes('multipart/form-data')) {
       // Handle file upload (from desktop app OR web app)
@@ -21,6 +25,9 @@ export async function POST(request: NextRequest) {
       const formData = await request.formData();
       const file = formData.get('file') as File;
       const tenantId = formData.get('tenantId') as string;
+      source_path = (formData.get('sourcePath') as string | null) || undefined;
+      category_hint = (formData.get('category') as string | null) || undefined;
+      tags_input = formData.get('tags') ?? undefined; // Comma-separated
 
       if (!file) {
         return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -30,57 +37,23 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Missing tenantId' }, { status: 400 });
       }
 
-      const apiKey = request.headers.get('x-api-key');
-      
-      // Try API key authentication first (for desktop app)
-      if (apiKey) {
-        const apiKeyRecord = await verifyExternalApiKey(apiKey);
-        if (!apiKeyRecord) {
-          return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
-        }
-        tenant = apiKeyRecord.tenant;
-
-        // Verify tenant ID matches
-        if (tenantId !== tenant.id) {
-          return NextResponse.json({ error: 'Tenant ID mismatch' }, { status: 403 });
-        }
-      } else {
-        // Try session-based authentication (for web app)
-        const { userId } = await auth();
-        if (!userId) {
-          return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        // Verify user has access to this tenant
-        const tenantMember = await prisma.tenantMember.findFirst({
-          where: {
-            user: { clerkUserId: userId },
-            tenantId: tenantId,
-          },
-          include: { tenant: true },
-        });
-
-        if (!tenantMember) {
-          return NextResponse.json({ error: 'Access denied to tenant' }, { status: 403 });
-        }
-
-        tenant = tenantMember.tenant;
+      // API key (desktop app) or session (web app)
+      const access = await authorizeTenant(request, { id: tenantId }, 'documents:ingest');
+      if ('error' in access) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
       }
+      tenant = access.tenant;
 
       file_name = file.name;
       
-      // Convert file to base64 or text
+      // Keep the raw bytes - extraction is format-aware
       const buffer = await file.arrayBuffer();
-      content = Buffer.from(buffer).toString('base64');
-      
-      // All file uploads from Sense default to OTHER doc type
-      // Users can categorize them later in the UI if needed
-      doc_type_hint = 'OTHER';
+      content = Buffer.from(buffer);
 
     } else {
       // Handle JSON request (original API for web app)
       const body = await request.json();
-      const { tenant_slug, api_key, file_name: fn, doc_type_hint: dth, content: c } = body;
+      const { tenant_slug, api_key, file_name: fn, category, doc_type_hint, tags, content: c, content_encoding, source_path: sp } = body;
 
       // Validate inputs
       if (!tenant_slug || !fn || !c) {
@@ -91,115 +64,88 @@ export async function POST(request: NextRequest) {
       }
 
       file_name = fn;
-      content = c;
-      doc_type_hint = dth;
-
-      // Authenticate via API key or verify tenant
-      if (api_key) {
-        const apiKeyRecord = await verifyExternalApiKey(api_key);
-        if (!apiKeyRecord) {
-          return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
-        }
-        tenant = apiKeyRecord.tenant;
-      } else {
-        tenant = await getTenantBySlug(tenant_slug);
-        if (!tenant) {
-          return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
-        }
+      // Binary formats (PDF, Office) must be sent base64 encoded
+      content = content_encoding === 'base64' ? Buffer.from(c, 'base64') : c;
+      // doc_type_hint is the older name of the field
+      category_hint = category ?? doc_type_hint;
+      source_path = sp;
+      tags_input = tags;
+
+      // API key (body or x-api-key) or a member's session
+      const access = await authorizeTenant(request, { slug: tenant_slug }, 'documents:ingest', { apiKey: api_key });
+      if ('error' in access) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
       }
+      tenant = access.tenant;
     }
 
-    // Extract text
-    const extractedText = await extractText(file_name, content);
-
-    // Determine doc type
-    const docType = doc_type_hint || 'OTHER';
-
-    // Create document record
-    const document = await prisma.document.create({
-      data: {
-        tenantId: tenant.id,
-        title: file_name.replace(/\.[^/.]+$/, ''), // Remove extension
-        originalFileName: file_name,
-        docType: docType as any,
-        source: 'SENSE',
-        status: 'UPLOADED',
-      },
-    });
+    // Validate the category hint; without one (or with OTHER, the Sense
+    // CLI's "don't know") the category is classified from the content
+    const category = category_hint ? parseCategory(category_hint) : null;
+    if (category_hint && !category) {
+      return NextResponse.json(
+        { error: `Invalid category. Expected one of: ${DOCUMENT_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Chunk the document
-    const chunks = chunkDocument(extractedText, docType as any, {
-      maxChunkSize: 1000,
-      overlap: 100,
-    });
+    // Tags replace the document's tags; without them existing tags are kept
+    const parsedTags = tags_input === undefined ? null : parseTags(tags_input);
+    if (parsedTags && 'error' in parsedTags) {
+      return NextResponse.json({ error: parsedTags.error }, { status: 400 });
+    }
 
-    // Update status to PARSED
-    await prisma.document.update({
-      where: { id: document.id },
-      data: { status: 'PARSED' },
+    // Extract, chunk and queue - embedding happens after the response is sent
+    const result = await enqueueIngestion({
+      tenantId: tenant.id,
+      fileName: file_name,
+      content,
+      category: category && category !== 'OTHER' ? category : undefined,
+      tags: parsedTags?.tags,
+      sourcePath: source_path,
     });
-
-    // Generate embeddings and upsert to Qdrant
-    const qdrantPoints = [];
-    const chunkRecords = [];
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const embedding = await generateEmbedding(chunk.text);
-      
-      // Generate a unique point ID using crypto (UUID v4)
-      const pointId = crypto.randomUUID();
-
-      qdrantPoints.push({
-        id: pointId,
-        vector: embedding,
-        payload: {
-          tenantId: tenant.id,
-          documentId: document.id,
-          chunkIndex: i,
-          docType: docType,
-          chunkStrategy: chunk.chunkStrategy,
-          pageNumber: chunk.pageNumber,
-          sectionTitle: chunk.sectionTitle,
-          text: chunk.text,
-        },
-      });
-
-      chunkRecords.push({
-        documentId: document.id,
-        tenantId: tenant.id,
-        chunkIndex: i,
-        text: chunk.text,
-        chunkStrategy: chunk.chunkStrategy,
-        pageNumber: chunk.pageNumber,
-        sectionTitle: chunk.sectionTitle,
-        qdrantPointId: pointId,
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { document, job, unchanged, format } = result;
+
+    if (unchanged || !job) {
+      // Same content, but a folder rule may have changed its tags
+      const current = parsedTags
+        ? await updateDocument(document, { tags: parsedTags.tags })
+        : document;
+
+      return NextResponse.json({
+        success: true,
+        unchanged: true,
+        document_id: current.id,
+        version: current.version,
+        category: current.category,
+        tags: current.tags,
+        message: 'Document unchanged, nothing to ingest',
       });
     }
 
-    // Ensure Qdrant collection exists
-    await qdrant.ensureCollection();
-
-    // Upsert to Qdrant
-    await qdrant.upsertPoints(qdrantPoints);
-
-    // Save chunks to database
-    await prisma.documentChunk.createMany({
-      data: chunkRecords,
-    });
-
-    // Update status to EMBEDDED
-    await prisma.document.update({
-      where: { id: document.id },
-      data: { status: 'EMBEDDED' },
+    after(async () => {
+      await processIngestionJob(job.id);
     });
 
     return NextResponse.json({
       success: true,
+      job_id: job.id,
       document_id: document.id,
-      chunks_created: chunks.length,
-      message: 'Document ingested successfully',
-    });
+      version: document.version,
+      category: document.category,
+      doc_type: document.docType,
+      tags: document.tags,
+      status: job.status,
+      chunks_total: job.totalChunks,
+      format,
+      status_url: `/api/ingest/jobs/${job.id}`,
+      message: document.version > 1
+        ? `Document updated to version ${document.version}, queued for ingestion`
+        : 'Document queued for ingestion',
+    }, { status: 202 });
   } catch (error: any) {
     console.error('Ingestion error:', error);
     return NextResponse.json(
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatIngestionJob, resumeIngestionJobs } from '@/lib/ingestion';
+import { pruneEmbeddingCache } from '@/lib/embedding_cache';
+
+export const maxDuration = 300;
+
+/**
+ * Ingestion worker - resumes queued and stalled ingestion jobs and prunes
+ * the embedding cache
+ * Triggered by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const jobs = await resumeIngestionJobs();
+    const cachePruned = await pruneEmbeddingCache();
+
+    return NextResponse.json({
+      processed: jobs.length,
+      jobs: jobs.map(formatIngestionJob),
+      cache_pruned: cachePruned,
+    });
+  } catch (error: any) {
+    console.error('Ingestion worker error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatInvitation, revokeInvitation } from '@/lib/members';
+
+/**
+ * Revoke a pending invitation; its link stops working
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const invitation = await prisma.tenantInvitation.findUnique({
+      where: { id },
+    });
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const access = await authorizeTenant(request, { id: invitation.tenantId }, 'members:manage');
+    if ('error' in access) {
+      return access.role
+        ? NextResponse.json({ error: access.error }, { status: 403 })
+        : NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    if (invitation.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: `Invitation was already ${invitation.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await revokeInvitation(invitation);
+
+    return NextResponse.json(formatInvitation(revoked));
+  } catch (error: any) {
+    console.error('Revoke invitation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, setActiveTenantCookie } from '@/lib/auth';
+import { acceptInvitation } from '@/lib/members';
+
+/**
+ * Body: { token }
+ * Joins the invitation's tenant as the signed-in user and makes it the
+ * active tenant
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { token } = body;
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Missing required field: token' }, { status: 400 });
+    }
+
+    const result = await acceptInvitation(token, user);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { tenant, member } = result;
+
+    const response = NextResponse.json({
+      tenant_id: tenant.id,
+      name: tenant.name,
+      slug: tenant.slug,
+      role: member.role,
+    });
+    setActiveTenantCookie(response, tenant.id);
+    return response;
+  } catch (error: any) {
+    console.error('Accept invitation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
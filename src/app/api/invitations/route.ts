@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeTenant } from '@/lib/authz';
+import { ROLES, createInvitation, formatInvitation, isRole } from '@/lib/members';
+
+/**
+ * Body: { tenant_id, email, role? }
+ * Emails an invitation link; role defaults to MEMBER
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { tenant_id, email, role = 'MEMBER' } = body;
+
+    const access = await authorizeTenant(request, { id: tenant_id }, 'members:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant, user, role: inviterRole } = access;
+    if (!user || !inviterRole) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: 'Missing required field: email' }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Expected one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await createInvitation({ tenant, inviter: user, inviterRole, email, role });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(formatInvitation(result.invitation), { status: 201 });
+  } catch (error: any) {
+    console.error('Create invitation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser, getTenantBySlug } from '@/lib/auth';
-import { runAgentPipeline } from '@/lib/agent_pipeline';
-import { runGeminiAgent } from '@/lib/gemini_agent';
-import { MultimodalFile } from '@/lib/gemini';
+import { authorizeTenant } from '@/lib/authz';
+import { isQueryMode, QUERY_MODES, runQuery } from '@/lib/orchestrator';
+import type { MultimodalFile } from '@/lib/gemini';
+import type { AgentStreamHandlers, QueryMode } from '@/lib/types/agent';
+import { createEventStream } from '@/lib/sse';
+import { formatCitations } from '@/lib/citations';
+import { parseQueryFilter } from '@/lib/query_filter';
+import {
+  canOwnConversation,
+  createConversation,
+  getConversation,
+  getConversationHistory,
+} from '@/lib/conversations';
 
+/**
+ * Map agent errors to an API error body and status
+ */
+function formatQueryError(error: any): { body: Record<string, string>; status: number } {
+  if (error.message?.startsWith('Query rejected:')) {
+    return {
+      body: { error: 'REJECTED', message: error.message.replace('Query rejected: ', '') },
+      status: 400,
+    };
+  }
+
+  if (error.message?.startsWith('Clarification needed:')) {
+    return {
+      body: { error: 'CLARIFICATION_NEEDED', message: error.message.replace('Clarification needed: ', '') },
+      status: 400,
+    };
+  }
+
+  return {
+    body: { error: 'Internal server error', details: error.message },
+    status: 500,
+  };
+}
+
+/**
+ * Answer a question from the tenant's knowledge
+ * With `stream: true` (or Accept: text/event-stream) the response is an SSE
+ * stream: `step` events as trace steps complete, `token` events with answer
+ * text, then `done` with the full JSON result or `error`
+ * `mode` is standard (default), deep, web or pipeline; attached files run multimodal
+ * Pass `conversation_id` to continue a thread; without it a new one is started
+ * An optional `filter` object restricts retrieval by document metadata (see query_filter)
+ */
 export async function POST(request: NextRequest) {
   try {
     const contentType = request.headers.get('content-type') || '';
     let question: string;
     let tenant_slug: string;
+    let conversation_id: string | undefined;
+    let filter_input: unknown;
     let files: MultimodalFile[] = [];
-    let mode: 'standard' | 'deep' | 'web' = 'standard';
+    let requestedMode: unknown;
     let useWebSearch = false;
+    let stream = request.headers.get('accept')?.includes('text/event-stream') || false;
 
     // Handle multipart form data (with files) or JSON
     if (contentType.includes('multipart/form-data')) {
       const formData = await request.formData();
       question = formData.get('question') as string;
       tenant_slug = formData.get('tenant_slug') as string;
-      mode = (formData.get('mode') as any) || 'standard';
+      conversation_id = (formData.get('conversation_id') as string | null) || undefined;
+      filter_input = formData.get('filter') ?? undefined; // JSON string
+      requestedMode = formData.get('mode') || undefined;
       useWebSearch = formData.get('useWebSearch') === 'true';
+      stream = stream || formData.get('stream') === 'true';
 
       // Process uploaded files
       const fileEntries = Array.from(formData.entries()).filter(([key]) => key.startsWith('file'));
@@ -38,8 +86,11 @@ export async function POST(request: NextRequest) {
       const body = await request.json();
       question = body.question;
       tenant_slug = body.tenant_slug;
-      mode = body.mode || 'standard';
+      conversation_id = body.conversation_id;
+      filter_input = body.filter;
+      requestedMode = body.mode;
       useWebSearch = body.useWebSearch || false;
+      stream = stream || body.stream === true;
     }
 
     if (!tenant_slug || !question) {
@@ -49,79 +100,93 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get tenant
-    const tenant = await getTenantBySlug(tenant_slug);
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+    if (requestedMode !== undefined && !isQueryMode(requestedMode)) {
+      return NextResponse.json(
+        { error: `Invalid mode. Expected one of: ${QUERY_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const mode: QueryMode | undefined = requestedMode;
+    if (mode === 'multimodal' && files.length === 0) {
+      return NextResponse.json({ error: 'multimodal mode needs at least one attached file' }, { status: 400 });
+    }
+
+    const parsedFilter = parseQueryFilter(filter_input);
+    if ('error' in parsedFilter) {
+      return NextResponse.json({ error: parsedFilter.error }, { status: 400 });
     }
+    const { filter } = parsedFilter;
 
-    // Get current user (optional for external API calls)
-    let userId: string | undefined;
-    try {
-      const user = await getCurrentUser();
-      userId = user?.id;
-    } catch (e) {
-      // External API - no user context
+    // Members, API keys and - on public demo tenants - anyone may query
+    const access = await authorizeTenant(request, { slug: tenant_slug }, 'knowledge:query');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
+    const { tenant } = access;
+    const userId = access.user?.id;
+    const owner = { userId, apiKeyId: access.apiKey?.id };
 
-    // Run the agent pipeline (with or without files)
-    // Use new Gemini function calling agent for text queries, old pipeline for multimodal
-    let result;
-    
-    if (files.length > 0) {
-      // Multimodal - use old pipeline
-      result = await runAgentPipeline({
+    // Continue an existing thread, or start one titled after this question;
+    // anonymous callers get single questions without a thread
+    let conversation = null;
+    if (conversation_id) {
+      conversation = await getConversation(tenant.id, owner, conversation_id);
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+    }
+    const history = conversation ? await getConversationHistory(conversation.id) : [];
+    const activeConversation = conversation
+      ?? (canOwnConversation(owner) ? await createConversation(tenant.id, owner, question) : null);
+
+    const answer = async (handlers: AgentStreamHandlers = {}) => {
+      const result = await runQuery({
         question,
         tenantId: tenant.id,
         userId,
-        files: files.length > 0 ? files : undefined,
+        mode,
+        files,
+        filter,
+        useWebSearch,
+        conversation: activeConversation ? { id: activeConversation.id, history } : undefined,
+        handlers,
+      });
+
+      return {
+        session_id: result.sessionId,
+        conversation_id: activeConversation?.id ?? null,
+        conversation_title: activeConversation?.title ?? null,
+        question,
+        standalone_question: result.standaloneQuestion,
+        answer: result.answer,
+        citations: formatCitations(result.citations),
+        quality_score: result.qualityScore,
+        trace: result.trace,
+        total_latency_ms: result.totalLatencyMs,
+        mode: result.mode,
+        used_web_search: result.mode === 'web' || useWebSearch,
+      };
+    };
+
+    if (stream) {
+      return createEventStream(async (send) => {
+        try {
+          const result = await answer({
+            onStep: (step) => send('step', step),
+            onToken: (text) => send('token', { text }),
+          });
+          send('done', result);
+        } catch (error: any) {
+          console.error('Knowledge query error:', error);
+          send('error', formatQueryError(error).body);
+        }
       });
-    } else if (mode === 'deep' || mode === 'web' || useWebSearch) {
-      // Deep reasoning or web search mode
-      const { runGeminiAgentWithWeb } = await import('@/lib/gemini_agent');
-      result = await runGeminiAgentWithWeb(question, tenant.id, userId, useWebSearch, mode);
-    } else {
-      // Standard mode
-      result = await runGeminiAgent(question, tenant.id, userId);
     }
 
-    return NextResponse.json({
-      session_id: 'sessionId' in result ? result.sessionId : `session_${Date.now()}`,
-      question,
-      answer: result.answer,
-      quality_score: result.qualityScore,
-      trace: result.trace,
-      total_latency_ms: result.totalLatencyMs,
-      mode: mode,
-      used_web_search: useWebSearch,
-    });
+    return NextResponse.json(await answer());
   } catch (error: any) {
     console.error('Knowledge query error:', error);
-    
-    // Handle specific error types
-    if (error.message?.startsWith('Query rejected:')) {
-      return NextResponse.json(
-        { 
-          error: 'REJECTED',
-          message: error.message.replace('Query rejected: ', ''),
-        },
-        { status: 400 }
-      );
-    }
-    
-    if (error.message?.startsWith('Clarification needed:')) {
-      return NextResponse.json(
-        { 
-          error: 'CLARIFICATION_NEEDED',
-          message: error.message.replace('Clarification needed: ', ''),
-        },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
-    );
+    const { body, status } = formatQueryError(error);
+    return NextResponse.json(body, { status });
   }
 }
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Role, TenantMember } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { ROLES, formatMember, isRole, removeMember, updateMemberRole } from '@/lib/members';
+
+/**
+ * Load a membership the caller may manage, with the caller's role
+ * Outside the tenant the membership does not exist
+ */
+async function getManagedMember(
+  request: NextRequest,
+  memberId: string
+): Promise<{ member: TenantMember; actorRole: Role } | { error: string; status: number }> {
+  const member = await prisma.tenantMember.findUnique({
+    where: { id: memberId },
+  });
+  if (!member) return { error: 'Member not found', status: 404 };
+
+  const access = await authorizeTenant(request, { id: member.tenantId }, 'members:manage');
+  if ('error' in access) {
+    return access.role
+      ? { error: access.error, status: 403 }
+      : { error: 'Member not found', status: 404 };
+  }
+  if (!access.role) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+  return { member, actorRole: access.role };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const managed = await getManagedMember(request, id);
+    if ('error' in managed) {
+      return NextResponse.json({ error: managed.error }, { status: managed.status });
+    }
+
+    const body = await request.json();
+    const { role } = body;
+
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Expected one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateMemberRole(managed.member, role, managed.actorRole);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const member = await prisma.tenantMember.findUniqueOrThrow({
+      where: { id },
+      include: { user: true },
+    });
+    return NextResponse.json(formatMember(member));
+  } catch (error: any) {
+    console.error('Update member error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const managed = await getManagedMember(request, id);
+    if ('error' in managed) {
+      return NextResponse.json({ error: managed.error }, { status: managed.status });
+    }
+
+    const result = await removeMember(managed.member, managed.actorRole);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, member_id: id });
+  } catch (error: any) {
+    console.error('Remove member error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
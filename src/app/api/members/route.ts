@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeTenant } from '@/lib/authz';
+import { formatInvitation, formatMember, listMembers, listPendingInvitations } from '@/lib/members';
+
+/**
+ * A tenant's members and pending invitations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+
+    const access = await authorizeTenant(request, { id: tenantId }, 'members:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    const [members, invitations] = await Promise.all([
+      listMembers(tenant.id),
+      listPendingInvitations(tenant.id),
+    ]);
+
+    return NextResponse.json({
+      tenant_id: tenant.id,
+      members: members.map(formatMember),
+      invitations: invitations.map(formatInvitation),
+    });
+  } catch (error: any) {
+    console.error('List members error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
 import { getWorkflowStatus } from '@/lib/opus';
 
 export async function GET(
@@ -8,11 +8,6 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id: workflowId } = await params;
 
     // Get workflow from database
@@ -28,8 +23,13 @@ export async function GET(
       return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
     }
 
-    // Verify user has access to this workflow
-    if (workflow.user.clerkUserId !== userId) {
+    // Verify access to the workflow's tenant; members only see their own
+    // workflows, API keys every workflow of their tenant
+    const access = await authorizeTenant(request, { id: workflow.tenantId }, 'workflows:start');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    if (access.user && workflow.userId !== access.user.id) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -1,38 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
 import { executeOpusWorkflow } from '@/lib/opus';
 import { OpusDocument, OpusWorkflowConfig } from '@/lib/types/opus';
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Get user and tenant
-    const user = await prisma.user.findUnique({
-      where: { clerkUserId: userId },
-    });
+    const body = await request.json();
+    const { workflowType, documents, config, tenantId } = body;
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    // Workflows belong to a user: the signed-in member, or the creator of the API key
+    const access = await authorizeTenant(request, { id: tenantId }, 'workflows:start');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
-
-    // Get user's tenant through membership
-    const membership = await prisma.tenantMember.findFirst({
-      where: { userId: user.id },
-      include: { tenant: true },
-    });
-
-    if (!membership) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+    const { tenant, apiKey } = access;
+    const user = access.user ?? (apiKey?.createdById
+      ? await prisma.user.findUnique({ where: { id: apiKey.createdById } })
+      : null);
+    if (!user) {
+      return NextResponse.json(
+        { error: apiKey ? 'API key has no owner to run workflows as' : 'Unauthorized' },
+        { status: apiKey ? 403 : 401 }
+      );
     }
 
-    const body = await request.json();
-    const { workflowType, documents, config } = body;
-
     if (!workflowType || !documents || !config) {
       return NextResponse.json(
         { error: 'Missing required fields: workflowType, documents, config' },
@@ -54,14 +46,14 @@ export async function POST(request: NextRequest) {
       workflowType,
       documents as OpusDocument[],
       config as OpusWorkflowConfig,
-      membership.tenant.id,
-      userId
+      tenant.id,
+      user.clerkUserId
     );
 
     // Store workflow in database
     const workflow = await prisma.workflow.create({
       data: {
-        tenantId: membership.tenant.id,
+        tenantId: tenant.id,
         userId: user.id,
         type: workflowType as any,
         status: 'PROCESSING' as any,
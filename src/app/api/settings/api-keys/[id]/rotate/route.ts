@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatApiKey, rotateApiKey } from '@/lib/api_keys';
+
+/**
+ * Replace a key with a new one of the same label, scopes and expiry
+ * The old key stops working at once; the response's `key` is shown only now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.externalApiKey.findUnique({
+      where: { id },
+    });
+
+    const access = existing && await authorizeTenant(request, { id: existing.tenantId }, 'api_keys:manage');
+    if (!existing || !access || ('error' in access && !access.role)) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: 'A revoked API key cannot be rotated' }, { status: 409 });
+    }
+
+    const { apiKey, key } = await rotateApiKey(existing, access.user?.id ?? null);
+
+    return NextResponse.json({ ...formatApiKey(apiKey), key, replaces: existing.id }, { status: 201 });
+  } catch (error: any) {
+    console.error('Rotate API key error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ExternalApiKey, User } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { formatApiKey, revokeApiKey } from '@/lib/api_keys';
+
+/**
+ * Load an API key the caller may manage, with the caller
+ * Admins lacking the permission get a 403; to anyone else outside the
+ * tenant the key does not exist
+ */
+async function getManagedApiKey(
+  request: NextRequest,
+  apiKeyId: string
+): Promise<{ apiKey: ExternalApiKey; user: User | null } | { error: string; status: number }> {
+  const apiKey = await prisma.externalApiKey.findUnique({
+    where: { id: apiKeyId },
+  });
+  if (!apiKey) return { error: 'API key not found', status: 404 };
+
+  const access = await authorizeTenant(request, { id: apiKey.tenantId }, 'api_keys:manage');
+  if ('error' in access) {
+    return access.role
+      ? { error: access.error, status: 403 }
+      : { error: 'API key not found', status: 404 };
+  }
+  return { apiKey, user: access.user };
+}
+
+/**
+ * Revoke a key; requests using it fail from now on
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const managed = await getManagedApiKey(request, id);
+    if ('error' in managed) {
+      return NextResponse.json({ error: managed.error }, { status: managed.status });
+    }
+
+    if (managed.apiKey.revokedAt) {
+      return NextResponse.json({ error: 'API key was already revoked' }, { status: 409 });
+    }
+
+    const revoked = await revokeApiKey(managed.apiKey);
+
+    return NextResponse.json(formatApiKey(revoked));
+  } catch (error: any) {
+    console.error('Revoke API key error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeTenant } from '@/lib/authz';
+import { createApiKey, formatApiKey, listApiKeys, parseApiKeyInput } from '@/lib/api_keys';
+
+/**
+ * A tenant's API keys, revoked and expired ones included; never the keys themselves
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+
+    const access = await authorizeTenant(request, { id: tenantId }, 'api_keys:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    const apiKeys = await listApiKeys(tenant.id);
+
+    return NextResponse.json({
+      tenant_id: tenant.id,
+      api_keys: apiKeys.map(formatApiKey),
+    });
+  } catch (error: any) {
+    console.error('List API keys error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { tenant_id, label, scopes, expires_at? }
+ * The response's `key` is the only time the key is shown
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { tenant_id } = body;
+
+    const access = await authorizeTenant(request, { id: tenant_id }, 'api_keys:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant, user } = access;
+
+    const input = parseApiKeyInput(body);
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const { apiKey, key } = await createApiKey(tenant.id, input, user?.id ?? null);
+
+    return NextResponse.json({ ...formatApiKey(apiKey), key }, { status: 201 });
+  } catch (error: any) {
+    console.error('Create API key error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import {
+  LLM_ROLES,
+  getDefaultModelId,
+  getLlmModel,
+  getTenantModelSelection,
+  isLlmRole,
+  listLlmModels,
+  type LlmRole,
+} from '@/lib/llm';
+
+function formatSettings(tenantId: string, selection: Partial<Record<LlmRole, string>>) {
+  return {
+    tenant_id: tenantId,
+    roles: LLM_ROLES.map(role => ({
+      role,
+      model: selection[role] || getDefaultModelId(role),
+      default_model: getDefaultModelId(role),
+      is_default: !selection[role],
+    })),
+    available_models: listLlmModels().map(model => ({
+      id: model.id,
+      provider: model.provider,
+      description: model.description,
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+
+    const access = await authorizeTenant(request, { id: tenantId }, 'settings:view');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    const selection = await getTenantModelSelection(tenant.id);
+
+    return NextResponse.json(formatSettings(tenant.id, selection));
+  } catch (error: any) {
+    console.error('Get model settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { tenant_id, models: { "<role>": "<model id>" | null } }
+ * null resets a role to its default
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { tenant_id, models } = body;
+
+    const access = await authorizeTenant(request, { id: tenant_id }, 'settings:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    if (typeof models !== 'object' || models === null || Array.isArray(models)) {
+      return NextResponse.json(
+        { error: 'models must be an object of role to model id' },
+        { status: 400 }
+      );
+    }
+
+    const selection = await getTenantModelSelection(tenant.id);
+
+    for (const [role, id] of Object.entries(models)) {
+      if (!isLlmRole(role)) {
+        return NextResponse.json(
+          { error: `Unknown role "${role}". Roles: ${LLM_ROLES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (id === null) {
+        delete selection[role];
+        continue;
+      }
+      try {
+        selection[role] = getLlmModel(String(id)).id;
+      } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    await prisma.tenantSettings.upsert({
+      where: { tenantId: tenant.id },
+      create: { tenantId: tenant.id, llmModels: selection },
+      update: { llmModels: selection },
+    });
+
+    return NextResponse.json(formatSettings(tenant.id, selection));
+  } catch (error: any) {
+    console.error('Update model settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorizeTenant } from '@/lib/authz';
+import { getRetrievalSettings, type RetrievalSettings } from '@/lib/retrieval';
+
+function formatSettings(tenantId: string, settings: RetrievalSettings) {
+  return {
+    tenant_id: tenantId,
+    vector_weight: settings.vectorWeight,
+    keyword_weight: settings.keywordWeight,
+    rrf_k: settings.rrfK,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+
+    const access = await authorizeTenant(request, { id: tenantId }, 'settings:view');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    const settings = await getRetrievalSettings(tenant.id);
+
+    return NextResponse.json(formatSettings(tenant.id, settings));
+  } catch (error: any) {
+    console.error('Get retrieval settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { tenant_id, vector_weight, keyword_weight, rrf_k } = body;
+
+    const access = await authorizeTenant(request, { id: tenant_id }, 'settings:manage');
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { tenant } = access;
+
+    for (const [field, value] of Object.entries({ vector_weight, keyword_weight })) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (rrf_k !== undefined && (!Number.isInteger(rrf_k) || rrf_k < 1)) {
+      return NextResponse.json(
+        { error: 'rrf_k must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const current = await getRetrievalSettings(tenant.id);
+    const next: RetrievalSettings = {
+      vectorWeight: vector_weight ?? current.vectorWeight,
+      keywordWeight: keyword_weight ?? current.keywordWeight,
+      rrfK: rrf_k ?? current.rrfK,
+    };
+
+    if (next.vectorWeight === 0 && next.keywordWeight === 0) {
+      return NextResponse.json(
+        { error: 'At least one of vector_weight and keyword_weight must be positive' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.tenantSettings.upsert({
+      where: { tenantId: tenant.id },
+      create: { tenantId: tenant.id, ...next },
+      update: next,
+    });
+
+    return NextResponse.json(formatSettings(tenant.id, next));
+  } catch (error: any) {
+    console.error('Update retrieval settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
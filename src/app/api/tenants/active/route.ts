@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getUserTenants, setActiveTenantCookie } from '@/lib/auth';
+
+/**
+ * Switch the signed-in user's active tenant
+ * Pages and routes called without a tenant resolve to it from then on
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { tenant_id } = body;
+
+    if (!tenant_id || typeof tenant_id !== 'string') {
+      return NextResponse.json({ error: 'Missing required field: tenant_id' }, { status: 400 });
+    }
+
+    const tenants = await getUserTenants(user.id);
+    const tenant = tenants.find(t => t.id === tenant_id);
+    if (!tenant) {
+      return NextResponse.json({ error: 'Not a member of this tenant' }, { status: 403 });
+    }
+
+    const response = NextResponse.json({
+      active_tenant_id: tenant.id,
+      name: tenant.name,
+      slug: tenant.slug,
+      role: tenant.role,
+    });
+    setActiveTenantCookie(response, tenant.id);
+
+    console.log(`🔀 ${user.email} switched to tenant ${tenant.slug}`);
+    return response;
+  } catch (error: any) {
+    console.error('Switch tenant error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getActiveTenant, getCurrentUser, getUserTenants } from '@/lib/auth';
+
+/**
+ * The workspaces the signed-in user belongs to, and which one is active
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [tenants, activeTenant] = await Promise.all([
+      getUserTenants(user.id),
+      getActiveTenant(user.id),
+    ]);
+
+    return NextResponse.json({
+      active_tenant_id: activeTenant?.id ?? null,
+      tenants: tenants.map(t => ({
+        id: t.id,
+        name: t.name,
+        slug: t.slug,
+        role: t.role,
+      })),
+    });
+  } catch (error: any) {
+    console.error('List tenants error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { getInvitationByToken, isInvitationExpired } from '@/lib/members';
+import AcceptInvitation from '@/components/members/AcceptInvitation';
+
+/**
+ * Landing page of an invitation link; outside (protected) so accepting does
+ * not first create a workspace of the user's own
+ */
+export default async function InvitePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const invitation = await getInvitationByToken(token);
+
+  let problem: string | null = null;
+  if (!invitation) {
+    problem = 'This invitation link is not valid.';
+  } else if (invitation.status !== 'PENDING') {
+    problem = `This invitation was ${invitation.status.toLowerCase()}.`;
+  } else if (isInvitationExpired(invitation)) {
+    problem = 'This invitation has expired. Ask an admin of the workspace to send a new one.';
+  } else if (invitation.email !== user.email.toLowerCase()) {
+    problem = `This invitation was sent to ${invitation.email}, but you are signed in as ${user.email}.`;
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', background: 'var(--bg-primary)', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 'var(--spacing-xl)' }}>
+      <div className="card" style={{ maxWidth: '32rem', width: '100%', padding: 'var(--spacing-2xl)' }}>
+        <h1 style={{
+          fontSize: '1.5rem',
+          fontWeight: 700,
+          marginBottom: 'var(--spacing-md)',
+          color: 'var(--text-primary)'
+        }}>
+          {invitation && !problem ? `Join ${invitation.tenant.name}` : 'Invitation'}
+        </h1>
+
+        {problem || !invitation ? (
+          <>
+            <p className="text-secondary" style={{ marginBottom: 'var(--spacing-lg)' }}>{problem}</p>
+            <Link href="/dashboard" className="btn-secondary">Go to dashboard</Link>
+          </>
+        ) : (
+          <>
+            <p className="text-secondary" style={{ marginBottom: 'var(--spacing-lg)' }}>
+              {invitation.invitedBy?.name || invitation.invitedBy?.email || 'An admin'} invited you to
+              join <strong>{invitation.tenant.name}</strong> as {invitation.role}.
+            </p>
+            <AcceptInvitation token={token} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
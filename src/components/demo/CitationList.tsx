@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFile, faChevronDown, faChevronRight } from '@fortawesome/free-solid-svg-icons';
+
+export interface CitationView {
+  marker: number;
+  chunk_id: string;
+  document_id: string;
+  title: string;
+  page_number: number | null;
+  section_title: string | null;
+  snippet: string;
+}
+
+/**
+ * Anchor ID of a message's citation, target of its [n] links
+ */
+export function citationAnchor(messageId: string, marker: number) {
+  return `cite-${messageId}-${marker}`;
+}
+
+/**
+ * Turn the answer's [n] / [n, m] markers into links to their source previews
+ * (rendered as raw HTML by the message's markdown renderer)
+ */
+export function linkCitationMarkers(content: string, messageId: string, citations: CitationView[]) {
+  const known = new Set(citations.map(c => c.marker));
+  return content.replace(/\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?!\()/g, (match, numbers: string) => {
+    const markers = numbers.split(',').map(n => parseInt(n.trim(), 10));
+    if (!markers.every(n => known.has(n))) return match;
+    return markers
+      .map(n => `<sup><a href="#${citationAnchor(messageId, n)}" class="citation-marker">[${n}]</a></sup>`)
+      .join('');
+  });
+}
+
+interface CitationListProps {
+  messageId: string;
+  citations: CitationView[];
+}
+
+export default function CitationList({ messageId, citations }: CitationListProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const toggle = (marker: number) => {
+    const next = new Set(expanded);
+    if (next.has(marker)) {
+      next.delete(marker);
+    } else {
+      next.add(marker);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <div style={{
+      marginTop: 'var(--spacing-sm)',
+      paddingTop: 'var(--spacing-sm)',
+      borderTop: '1px solid var(--border-subtle)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.375rem',
+    }}>
+      <div style={{
+        fontSize: '0.6875rem',
+        fontWeight: 600,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        color: 'var(--text-tertiary)',
+      }}>
+        Sources
+      </div>
+
+      {citations.map((citation) => {
+        const isOpen = expanded.has(citation.marker);
+        const location = [
+          citation.page_number ? `p. ${citation.page_number}` : null,
+          citation.section_title,
+        ].filter(Boolean).join(' · ');
+
+        return (
+          <div
+            key={citation.marker}
+            id={citationAnchor(messageId, citation.marker)}
+            style={{
+              fontSize: '0.8125rem',
+              backgroundColor: 'var(--bg-secondary)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              scrollMarginTop: '1rem',
+            }}
+          >
+            <button
+              type="button"
+              onClick={() => toggle(citation.marker)}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                padding: '0.5rem',
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+                color: 'inherit',
+              }}
+            >
+              <span style={{ fontWeight: 700, color: 'var(--accent)' }}>[{citation.marker}]</span>
+              <FontAwesomeIcon icon={faFile} style={{ color: 'var(--accent)', fontSize: '0.75rem' }} />
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {citation.title}
+              </span>
+              {location && (
+                <span className="text-tertiary" style={{ fontSize: '0.75rem', whiteSpace: 'nowrap' }}>
+                  {location}
+                </span>
+              )}
+              <FontAwesomeIcon icon={isOpen ? faChevronDown : faChevronRight} style={{ fontSize: '0.625rem' }} />
+            </button>
+            {isOpen && (
+              <blockquote style={{
+                margin: 0,
+                padding: '0 0.75rem 0.625rem 2.25rem',
+                fontStyle: 'italic',
+                lineHeight: 1.5,
+              }}>
+                &ldquo;{citation.snippet}&rdquo;
+              </blockquote>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
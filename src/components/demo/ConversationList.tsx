@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPen, faPlus, faComments } from '@fortawesome/free-solid-svg-icons';
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  turn_count: number;
+  updated_at: string;
+}
+
+interface ConversationListProps {
+  tenantId: string;
+  activeId: string | null;
+  refreshKey: number; // Bumped by the console after each answered question
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+}
+
+export default function ConversationList({
+  tenantId,
+  activeId,
+  refreshKey,
+  disabled = false,
+  onSelect,
+  onNew,
+}: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/conversations?tenantId=${tenantId}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load conversations');
+        if (!cancelled) setConversations(data.conversations);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId, refreshKey]);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const saveRename = async (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title || title === conversations.find(c => c.id === id)?.title) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Rename failed');
+      setConversations(prev => prev.map(c => (c.id === id ? { ...c, title: data.title } : c)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="card" style={{ display: 'flex', flexDirection: 'column', minHeight: 0, overflow: 'hidden' }}>
+      <button
+        type="button"
+        onClick={onNew}
+        className="btn-secondary"
+        disabled={disabled}
+        style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 'var(--spacing-xs)', marginBottom: 'var(--spacing-md)' }}
+      >
+        <FontAwesomeIcon icon={faPlus} />
+        New conversation
+      </button>
+
+      {error && (
+        <p className="text-secondary" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-sm)' }}>
+          {error}
+        </p>
+      )}
+
+      <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+        {conversations.length === 0 && (
+          <p className="text-tertiary" style={{ fontSize: '0.8125rem', textAlign: 'center', padding: 'var(--spacing-md) 0' }}>
+            <FontAwesomeIcon icon={faComments} style={{ marginRight: '0.375rem' }} />
+            No conversations yet
+          </p>
+        )}
+
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeId;
+
+          return (
+            <div
+              key={conversation.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-xs)',
+                padding: '0.5rem 0.625rem',
+                borderRadius: 'var(--radius-md)',
+                backgroundColor: isActive ? 'var(--accent-10)' : 'transparent',
+                border: `1px solid ${isActive ? 'var(--accent-20)' : 'transparent'}`,
+              }}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  maxLength={200}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={() => saveRename(conversation.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename(conversation.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  aria-label="Conversation title"
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    fontSize: '0.8125rem',
+                    padding: '0.25rem 0.375rem',
+                    borderRadius: 'var(--radius-sm)',
+                    border: '1px solid var(--border)',
+                    backgroundColor: 'var(--bg-elevated)',
+                    color: 'var(--text-primary)',
+                  }}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  title={conversation.title}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    textAlign: 'left',
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    cursor: disabled ? 'default' : 'pointer',
+                  }}
+                >
+                  <div style={{
+                    fontSize: '0.8125rem',
+                    fontWeight: isActive ? 600 : 500,
+                    color: isActive ? 'var(--accent)' : 'var(--text-primary)',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}>
+                    {conversation.title}
+                  </div>
+                  <div className="text-tertiary" style={{ fontSize: '0.6875rem' }}>
+                    {conversation.turn_count} {conversation.turn_count === 1 ? 'question' : 'questions'} · {new Date(conversation.updated_at).toLocaleDateString()}
+                  </div>
+                </button>
+              )}
+
+              {editingId !== conversation.id && (
+                <button
+                  type="button"
+                  onClick={() => startRename(conversation)}
+                  title="Rename"
+                  aria-label="Rename conversation"
+                  style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--text-tertiary)', fontSize: '0.75rem', padding: '0.25rem' }}
+                >
+                  <FontAwesomeIcon icon={faPen} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -27,11 +27,15 @@ import {
   faUsers
 } from '@fortawesome/free-solid-svg-icons';
 import AgentTimeline from '../risk/AgentTimeline';
+import ConversationList from './ConversationList';
+import CitationList, { linkCitationMarkers, type CitationView } from './CitationList';
+import { readEventStream } from '@/lib/sse';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  citations?: CitationView[];
   trace?: any;
   qualityScore?: number;
   timestamp: Date;
@@ -40,8 +44,23 @@ interface Message {
   usedWebSearch?: boolean;
 }
 
+// Render an API error body as an assistant message
+function errorToMessage(id: string, data: { error: string; message?: string }): Message {
+  return {
+    id,
+    role: 'assistant',
+    content: data.error === 'REJECTED' 
+      ? `❌ Query Rejected: ${data.message}`
+      : data.error === 'CLARIFICATION_NEEDED'
+      ? `❓ Clarification Needed: ${data.message}`
+      : `⚠️ Error: ${data.error}`,
+    timestamp: new Date(),
+  };
+}
+
 interface DemoConsoleProps {
   tenantSlug: string;
+  tenantId?: string; // Enables the saved conversation list
   initialHistory?: Array<{
     question: string;
     answer: string;
@@ -50,10 +69,11 @@ interface DemoConsoleProps {
   }>;
 }
 
-export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoConsoleProps) {
+export default function DemoConsole({ tenantSlug, tenantId, initialHistory = [] }: DemoConsoleProps) {
   const [question, setQuestion] = useState('');
   const [loading, setLoading] = useState(false);
   const [currentTrace, setCurrentTrace] = useState<any>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -62,12 +82,54 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
   const [useWebSearch, setUseWebSearch] = useState(false);
   const [showModeSelector, setShowModeSelector] = useState(false);
   
+  // Server-side thread the next question continues (null starts a new one)
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0);
+
+  const startNewConversation = () => {
+    setMessages([]);
+    setConversationId(null);
+    setSelectedMessageTrace(null);
+    setCurrentTrace(null);
+  };
+
   // Clear conversation handler
   const handleClearConversation = () => {
-    if (messages.length > 0 && confirm('Clear all messages? This cannot be undone.')) {
-      setMessages([]);
-      setSelectedMessageTrace(null);
-      setCurrentTrace(null);
+    if (messages.length > 0 && confirm('Clear all messages and start a new conversation?')) {
+      startNewConversation();
+    }
+  };
+
+  // Resume a saved thread
+  const loadConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load conversation');
+
+      setMessages(data.turns.flatMap((turn: any) => [
+        {
+          id: `${turn.session_id}-q`,
+          role: 'user' as const,
+          content: turn.question,
+          timestamp: new Date(turn.created_at),
+        },
+        {
+          id: `${turn.session_id}-a`,
+          role: 'assistant' as const,
+          content: turn.answer,
+          citations: turn.citations,
+          trace: turn.trace,
+          qualityScore: turn.quality_score ?? undefined,
+          timestamp: new Date(turn.created_at),
+        },
+      ]));
+      setConversationId(id);
+      const lastTrace = data.turns.length > 0 ? data.turns[data.turns.length - 1].trace : null;
+      setSelectedMessageTrace(lastTrace);
+      setCurrentTrace(lastTrace);
+    } catch (err: any) {
+      alert(err.message);
     }
   };
   const [messages, setMessages] = useState<Message[]>(() => {
@@ -184,7 +246,7 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
   ];  useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, loading]);
+  }, [messages, loading, streamingAnswer]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -225,57 +287,9 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
     setLoading(true);
     setCurrentTrace(null);
     
-    // Show processing trace immediately
-    setSelectedMessageTrace([
-      {
-        step: 'GATEKEEPER',
-        summary: 'Checking query safety and clarity...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'processing',
-        details: 'Analyzing query',
-      },
-      {
-        step: 'PLANNER',
-        summary: 'Planning search strategy...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'pending',
-        details: 'Waiting for gatekeeper',
-      },
-      {
-        step: 'RETRIEVER',
-        summary: 'Retrieving documents...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'pending',
-        details: 'Waiting for planner',
-      },
-      {
-        step: 'ANALYST',
-        summary: 'Analyzing evidence...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'pending',
-        details: 'Waiting for retrieval',
-      },
-      {
-        step: 'AUDITOR',
-        summary: 'Assessing quality...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'pending',
-        details: 'Waiting for analysis',
-      },
-      {
-        step: 'WRITER',
-        summary: 'Generating response...',
-        durationMs: 0,
-        documentsUsed: [],
-        status: 'pending',
-        details: 'Waiting for auditor',
-      },
-    ]);
+    // Steps are appended live as the agent completes them
+    setSelectedMessageTrace([]);
+    setStreamingAnswer('');
 
     try {
       let response: Response;
@@ -287,6 +301,10 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
         formData.append('question', currentQuestion);
         formData.append('mode', mode);
         formData.append('useWebSearch', useWebSearch.toString());
+        formData.append('stream', 'true');
+        if (conversationId) {
+          formData.append('conversation_id', conversationId);
+        }
         currentFiles.forEach((file, index) => {
           formData.append(`file${index}`, file);
         });
@@ -306,25 +324,42 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
             question: currentQuestion,
             mode: mode,
             useWebSearch: useWebSearch,
+            stream: true,
+            conversation_id: conversationId || undefined,
           }),
         });
       }
 
-      const data = await response.json();
-
+      // Validation errors come back as plain JSON before streaming starts
       if (!response.ok) {
-        // Add error message
-        const errorMessage: Message = {
-          id: assistantMessageId,
-          role: 'assistant',
-          content: data.error === 'REJECTED' 
-            ? `❌ Query Rejected: ${data.message}`
-            : data.error === 'CLARIFICATION_NEEDED'
-            ? `❓ Clarification Needed: ${data.message}`
-            : `⚠️ Error: ${data.error}`,
-          timestamp: new Date(),
-        };
-        setMessages(prev => [...prev, errorMessage]);
+        const data = await response.json();
+        setMessages(prev => [...prev, errorToMessage(assistantMessageId, data)]);
+        return;
+      }
+
+      const liveTrace: any[] = [];
+      let data: any = null;
+      let streamError: any = null;
+
+      await readEventStream(response, (event, payload) => {
+        if (event === 'step') {
+          liveTrace.push(payload);
+          setSelectedMessageTrace([...liveTrace]);
+          // Text streamed before a tool call was preamble, not the answer
+          if (payload.step !== 'FINAL_ANSWER') {
+            setStreamingAnswer('');
+          }
+        } else if (event === 'token') {
+          setStreamingAnswer(prev => prev + payload.text);
+        } else if (event === 'done') {
+          data = payload;
+        } else if (event === 'error') {
+          streamError = payload;
+        }
+      });
+
+      if (streamError || !data) {
+        setMessages(prev => [...prev, errorToMessage(assistantMessageId, streamError || { error: 'Stream ended without an answer' })]);
         return;
       }
 
@@ -333,6 +368,7 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
         id: assistantMessageId,
         role: 'assistant',
         content: data.answer,
+        citations: data.citations,
         trace: data.trace,
         qualityScore: data.quality_score,
         timestamp: new Date(),
@@ -343,6 +379,8 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
       setMessages(prev => [...prev, assistantMessage]);
       setCurrentTrace(data.trace);
       setSelectedMessageTrace(data.trace);
+      setConversationId(data.conversation_id);
+      setConversationsVersion(v => v + 1);
       
     } catch (err: any) {
       const errorMessage: Message = {
@@ -354,18 +392,31 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setLoading(false);
+      setStreamingAnswer('');
     }
   };
 
   return (
     <div style={{ 
       display: 'grid', 
-      gridTemplateColumns: selectedMessageTrace ? '1fr 380px' : '1fr',
+      gridTemplateColumns: [tenantId ? '240px' : '', '1fr', selectedMessageTrace ? '380px' : ''].filter(Boolean).join(' '),
       gap: '1.5rem',
       height: 'calc(100vh - 250px)',
       maxHeight: '900px',
       transition: 'grid-template-columns 0.3s cubic-bezier(0.4, 0, 0.2, 1)'
     }}>
+      {/* Saved conversations */}
+      {tenantId && (
+        <ConversationList
+          tenantId={tenantId}
+          activeId={conversationId}
+          refreshKey={conversationsVersion}
+          disabled={loading}
+          onSelect={loadConversation}
+          onNew={startNewConversation}
+        />
+      )}
+
       {/* Main Chat Area */}
       <div style={{ 
         display: 'flex', 
@@ -542,9 +593,16 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
                       remarkPlugins={[remarkGfm]}
                       rehypePlugins={[rehypeHighlight, rehypeRaw]}
                     >
-                      {message.content}
+                      {message.citations?.length
+                        ? linkCitationMarkers(message.content, message.id, message.citations)
+                        : message.content}
                     </ReactMarkdown>
                   </div>
+
+                  {/* Sources behind the answer's [n] markers */}
+                  {message.citations && message.citations.length > 0 && (
+                    <CitationList messageId={message.id} citations={message.citations} />
+                  )}
                   
                   {/* Show attached files */}
                   {message.files && message.files.length > 0 && (
@@ -678,27 +736,45 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
                   AI Assistant
                 </div>
                 
-                <div style={{
-                  padding: 'var(--spacing-md)',
-                  borderRadius: 'var(--radius-lg)',
-                  backgroundColor: 'var(--bg-elevated)',
-                  border: '1px solid var(--border)',
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: 'var(--spacing-sm)'
-                }}>
-                  <div className="spinner" style={{
-                    width: '16px',
-                    height: '16px',
-                    border: '2px solid var(--accent-20)',
-                    borderTopColor: 'var(--accent)',
-                    borderRadius: '50%',
-                    animation: 'spin 0.8s linear infinite'
-                  }} />
-                  <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
-                    Analyzing your question...
-                  </span>
-                </div>
+                {streamingAnswer ? (
+                  <div style={{
+                    padding: 'var(--spacing-md)',
+                    borderRadius: 'var(--radius-lg)',
+                    backgroundColor: 'var(--bg-elevated)',
+                    border: '1px solid var(--border)',
+                    minWidth: 0
+                  }}>
+                    <div className="markdown-content">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                        {streamingAnswer}
+                      </ReactMarkdown>
+                    </div>
+                  </div>
+                ) : (
+                  <div style={{
+                    padding: 'var(--spacing-md)',
+                    borderRadius: 'var(--radius-lg)',
+                    backgroundColor: 'var(--bg-elevated)',
+                    border: '1px solid var(--border)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 'var(--spacing-sm)'
+                  }}>
+                    <div className="spinner" style={{
+                      width: '16px',
+                      height: '16px',
+                      border: '2px solid var(--accent-20)',
+                      borderTopColor: 'var(--accent)',
+                      borderRadius: '50%',
+                      animation: 'spin 0.8s linear infinite'
+                    }} />
+                    <span className="text-secondary" style={{ fontSize: '0.875rem' }}>
+                      {selectedMessageTrace?.length > 0
+                        ? selectedMessageTrace[selectedMessageTrace.length - 1].summary
+                        : 'Analyzing your question...'}
+                    </span>
+                  </div>
+                )}
               </div>
             )}
             
@@ -1080,7 +1156,7 @@ export default function DemoConsole({ tenantSlug, initialHistory = [] }: DemoCon
               </button>
             </div>
           </div>
-          <AgentTimeline trace={selectedMessageTrace} />
+          <AgentTimeline trace={selectedMessageTrace} live={loading} />
         </div>
       )}
     </div>
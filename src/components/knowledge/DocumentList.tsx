@@ -1,28 +1,118 @@
 'use client';
 
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+// Mirrors the Prisma DocumentCategory and ChunkStrategy enums
+const CATEGORIES = ['POLICY', 'INCIDENT', 'ARCHITECTURE', 'CHAT', 'TABLE', 'OTHER'];
+const CHUNK_STRATEGIES = ['PARAGRAPH', 'SECTION', 'SLIDING', 'LINE', 'TABLE', 'PAGE'];
+
 interface Document {
   id: string;
   title: string;
   originalFileName: string;
   docType: string;
+  category: string;
+  tags: string[];
   source: string;
   status: string;
+  version: number;
   createdAt: Date;
   _count: {
     chunks: number;
   };
 }
 
+interface DocumentVersion {
+  version: number;
+  original_file_name: string;
+  chunk_count: number;
+  created_at: string;
+}
+
 interface DocumentListProps {
   documents: Document[];
+  canDelete?: boolean; // documents:delete - TENANT_ADMIN and up
 }
 
-export default function DocumentList({ documents }: DocumentListProps) {
+export default function DocumentList({ documents, canDelete = false }: DocumentListProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ documentId: string; versions: DocumentVersion[] } | null>(null);
+
+  const toggleHistory = async (doc: Document) => {
+    if (history?.documentId === doc.id) {
+      setHistory(null);
+      return;
+    }
+    const response = await fetch(`/api/documents/${doc.id}`);
+    if (response.ok) {
+      const result = await response.json();
+      setHistory({ documentId: doc.id, versions: result.versions });
+    }
+  };
+
+  const runAction = async (documentId: string, action: () => Promise<Response>) => {
+    setBusyId(documentId);
+    setActionError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Action failed');
+      }
+      router.refresh();
+    } catch (error: any) {
+      setActionError(error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCategoryChange = (doc: Document, category: string) =>
+    runAction(doc.id, () => fetch(`/api/documents/${doc.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ category }),
+    }));
+
+  const handleEditTags = (doc: Document) => {
+    const input = prompt('Tags (comma separated)', doc.tags.join(', '));
+    if (input === null) return;
+    runAction(doc.id, () => fetch(`/api/documents/${doc.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags: input }),
+    }));
+  };
+
+  const handleReindex = (doc: Document, chunkStrategy: string) =>
+    runAction(doc.id, () => fetch(`/api/documents/${doc.id}/reindex`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chunk_strategy: chunkStrategy }),
+    }));
+
+  const handleDelete = (doc: Document) => {
+    if (!confirm(`Delete "${doc.title}" and all of its chunks?`)) return;
+    runAction(doc.id, () => fetch(`/api/documents/${doc.id}`, { method: 'DELETE' }));
+  };
+
+  const selectStyle = {
+    padding: '0.25rem 0.5rem',
+    fontSize: '0.8125rem',
+    borderRadius: 'var(--radius-md)',
+    border: '1px solid var(--border)',
+    backgroundColor: 'var(--bg-secondary)',
+    color: 'var(--text-primary)',
+  };
   const getStatusStyle = (status: string) => {
     const styles = {
       EMBEDDED: { backgroundColor: 'var(--accent-10)', color: 'var(--accent)' },
       PARSED: { backgroundColor: 'var(--secondary-10)', color: 'var(--secondary)' },
       UPLOADED: { backgroundColor: 'var(--bg-tertiary)', color: 'var(--text-tertiary)' },
+      FAILED: { backgroundColor: 'var(--accent-5)', color: 'var(--text-secondary)' },
     };
     return styles[status as keyof typeof styles] || styles.UPLOADED;
   };
@@ -42,6 +132,12 @@ export default function DocumentList({ documents }: DocumentListProps) {
       }}>
         Documents
       </h2>
+
+      {actionError && (
+        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+          {actionError}
+        </p>
+      )}
       
       {documents.length === 0 ? (
         <div style={{ textAlign: 'center', padding: 'var(--spacing-2xl) 0' }}>
@@ -74,7 +170,7 @@ export default function DocumentList({ documents }: DocumentListProps) {
                   textTransform: 'uppercase',
                   letterSpacing: '0.05em'
                 }}>
-                  Type
+                  Category
                 </th>
                 <th className="text-tertiary" style={{ 
                   padding: 'var(--spacing-sm) var(--spacing-md)', 
@@ -116,6 +212,16 @@ export default function DocumentList({ documents }: DocumentListProps) {
                 }}>
                   Created
                 </th>
+                <th className="text-tertiary" style={{ 
+                  padding: 'var(--spacing-sm) var(--spacing-md)', 
+                  textAlign: 'left', 
+                  fontSize: '0.75rem', 
+                  fontWeight: 500,
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.05em'
+                }}>
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody>
@@ -135,16 +241,66 @@ export default function DocumentList({ documents }: DocumentListProps) {
                     </div>
                     <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginTop: '0.125rem' }}>
                       {doc.originalFileName}
+                      {doc.version > 1 && (
+                        <button
+                          onClick={() => toggleHistory(doc)}
+                          className="accent-text"
+                          style={{ marginLeft: 'var(--spacing-xs)', fontSize: '0.75rem', fontWeight: 600 }}
+                          title="Show version history"
+                        >
+                          v{doc.version}
+                        </button>
+                      )}
                     </div>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.25rem', marginTop: 'var(--spacing-xs)' }}>
+                      {doc.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          style={{
+                            padding: '0.0625rem 0.375rem',
+                            fontSize: '0.6875rem',
+                            borderRadius: 'var(--radius-sm)',
+                            backgroundColor: 'var(--accent-10)',
+                            color: 'var(--accent)',
+                          }}
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                      <button
+                        onClick={() => handleEditTags(doc)}
+                        disabled={busyId === doc.id}
+                        className="text-tertiary"
+                        style={{ fontSize: '0.6875rem' }}
+                        title="Edit tags"
+                      >
+                        {doc.tags.length > 0 ? 'edit tags' : '+ tags'}
+                      </button>
+                    </div>
+                    {history?.documentId === doc.id && (
+                      <ul className="text-tertiary" style={{ fontSize: '0.75rem', marginTop: 'var(--spacing-xs)' }}>
+                        {history.versions.map((v) => (
+                          <li key={v.version}>
+                            v{v.version} · {v.original_file_name} · {v.chunk_count} chunks · {new Date(v.created_at).toLocaleString()}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </td>
                   <td style={{ padding: 'var(--spacing-md)' }}>
-                    <span style={{ 
-                      fontSize: '0.875rem', 
-                      fontWeight: 500,
-                      ...getDocTypeStyle(doc.docType)
-                    }}>
-                      {doc.docType}
-                    </span>
+                    <select
+                      value={doc.category}
+                      disabled={busyId === doc.id}
+                      onChange={(e) => handleCategoryChange(doc, e.target.value)}
+                      style={{ ...selectStyle, fontWeight: 500, ...getDocTypeStyle(doc.category) }}
+                    >
+                      {CATEGORIES.map((category) => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                    <div className="text-tertiary" style={{ fontSize: '0.75rem', marginTop: 'var(--spacing-xs)' }}>
+                      {doc.docType.toLowerCase()}
+                    </div>
                   </td>
                   <td style={{ padding: 'var(--spacing-md)' }}>
                     <span style={{ 
@@ -168,6 +324,38 @@ export default function DocumentList({ documents }: DocumentListProps) {
                   <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
                     {new Date(doc.createdAt).toLocaleDateString()}
                   </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)' }}>
+                      <select
+                        value=""
+                        disabled={busyId === doc.id}
+                        onChange={(e) => e.target.value && handleReindex(doc, e.target.value)}
+                        style={selectStyle}
+                        title="Re-chunk and re-embed this document"
+                      >
+                        <option value="">Re-index as…</option>
+                        {CHUNK_STRATEGIES.map((strategy) => (
+                          <option key={strategy} value={strategy}>{strategy}</option>
+                        ))}
+                      </select>
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(doc)}
+                          disabled={busyId === doc.id}
+                          className="accent-text"
+                          title="Delete document"
+                          style={{
+                            padding: '0.25rem 0.5rem',
+                            fontSize: '0.8125rem',
+                            opacity: busyId === doc.id ? 0.5 : 1,
+                            cursor: busyId === doc.id ? 'not-allowed' : 'pointer',
+                          }}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -8,6 +8,30 @@ interface UploadProgress {
   message?: string;
 }
 
+const JOB_POLL_INTERVAL_MS = 1500;
+
+async function waitForJob(
+  statusUrl: string,
+  headers: Record<string, string>,
+  onProgress: (processed: number, total: number) => void
+) {
+  while (true) {
+    const response = await fetch(statusUrl, { headers });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to get ingestion status');
+    }
+
+    const job = await response.json();
+    if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+      return job;
+    }
+
+    onProgress(job.processed_chunks, job.total_chunks);
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
 export default function DocumentUpload({ tenantId, apiKey }: { tenantId: string; apiKey?: string }) {
   const [files, setFiles] = useState<File[]>([]);
   const [progress, setProgress] = useState<UploadProgress[]>([]);
@@ -62,6 +86,28 @@ export default function DocumentUpload({ tenantId, apiKey }: { tenantId: string;
 
         const result = await response.json();
 
+        if (result.unchanged) {
+          setProgress((prev) =>
+            prev.map((p, idx) =>
+              idx === i ? { ...p, status: 'success', message: 'Already up to date (unchanged)' } : p
+            )
+          );
+          continue;
+        }
+
+        // Embedding runs as a background job - poll until it settles
+        const job = await waitForJob(result.status_url, headers, (processed, total) => {
+          setProgress((prev) =>
+            prev.map((p, idx) =>
+              idx === i ? { ...p, message: `Embedding ${processed}/${total} chunks...` } : p
+            )
+          );
+        });
+
+        if (job.status === 'FAILED') {
+          throw new Error(job.last_error || 'Ingestion failed');
+        }
+
         // Update status to success
         setProgress((prev) =>
           prev.map((p, idx) =>
@@ -69,7 +115,7 @@ export default function DocumentUpload({ tenantId, apiKey }: { tenantId: string;
               ? {
                   ...p,
                   status: 'success',
-                  message: `Uploaded successfully (${result.chunks_created} chunks)`,
+                  message: `Uploaded successfully (${job.total_chunks} chunks)`,
                 }
               : p
           )
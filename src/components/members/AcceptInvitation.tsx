@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+export default function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const router = useRouter();
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to accept invitation');
+      }
+      router.push('/dashboard');
+    } catch (error: any) {
+      setError(error.message);
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleAccept}
+        disabled={isAccepting}
+        className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isAccepting ? 'Joining...' : 'Accept invitation'}
+      </button>
+      {error && (
+        <p style={{ marginTop: 'var(--spacing-md)', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface Member {
+  id: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  joined_at: Date | string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  status: string; // PENDING or EXPIRED
+  invited_by: string | null;
+  expires_at: Date | string;
+}
+
+interface MemberManagerProps {
+  tenantId: string;
+  currentUserId: string;
+  members: Member[];
+  invitations: Invitation[];
+  assignableRoles: string[]; // SUPER_ADMIN only for SUPER_ADMINs
+}
+
+const headerStyle = {
+  padding: 'var(--spacing-sm) var(--spacing-md)',
+  textAlign: 'left' as const,
+  fontSize: '0.75rem',
+  fontWeight: 500,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const selectStyle = {
+  padding: '0.25rem 0.5rem',
+  fontSize: '0.8125rem',
+  borderRadius: 'var(--radius-md)',
+  border: '1px solid var(--border)',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+};
+
+export default function MemberManager({
+  tenantId,
+  currentUserId,
+  members,
+  invitations,
+  assignableRoles,
+}: MemberManagerProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState('MEMBER');
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setActionError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Action failed');
+      }
+      router.refresh();
+      return true;
+    } catch (error: any) {
+      setActionError(error.message);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sent = await runAction('invite', () => fetch('/api/invitations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tenant_id: tenantId, email: inviteEmail, role: inviteRole }),
+    }));
+    if (sent) setInviteEmail('');
+  };
+
+  const handleRoleChange = (member: Member, role: string) =>
+    runAction(member.id, () => fetch(`/api/members/${member.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    }));
+
+  const handleRemove = (member: Member) => {
+    if (!confirm(`Remove ${member.name || member.email} from this workspace?`)) return;
+    runAction(member.id, () => fetch(`/api/members/${member.id}`, { method: 'DELETE' }));
+  };
+
+  const handleResend = (invitation: Invitation) =>
+    runAction(invitation.id, () => fetch('/api/invitations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tenant_id: tenantId, email: invitation.email, role: invitation.role }),
+    }));
+
+  const handleRevoke = (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation to ${invitation.email}?`)) return;
+    runAction(invitation.id, () => fetch(`/api/invitations/${invitation.id}`, { method: 'DELETE' }));
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleInvite} className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
+        <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: 'var(--spacing-md)', color: 'var(--text-primary)' }}>
+          Invite a colleague
+        </h2>
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+          <input
+            type="email"
+            required
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="colleague@company.com"
+            style={{ ...selectStyle, flex: 1, minWidth: '16rem', padding: '0.5rem 0.75rem', fontSize: '0.875rem' }}
+          />
+          <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value)} style={selectStyle}>
+            {assignableRoles.map((role) => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busyId === 'invite'}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busyId === 'invite' ? 'Sending...' : 'Send invitation'}
+          </button>
+        </div>
+      </form>
+
+      {actionError && (
+        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+          {actionError}
+        </p>
+      )}
+
+      <div className="card" style={{ marginBottom: 'var(--spacing-xl)', overflowX: 'auto' }}>
+        <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: 'var(--spacing-md)', color: 'var(--text-primary)' }}>
+          Members
+        </h2>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ backgroundColor: 'var(--bg-tertiary)', borderBottom: '1px solid var(--border)' }}>
+              <th className="text-tertiary" style={headerStyle}>Member</th>
+              <th className="text-tertiary" style={headerStyle}>Role</th>
+              <th className="text-tertiary" style={headerStyle}>Joined</th>
+              <th className="text-tertiary" style={headerStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => {
+              // Roles this admin cannot grant are shown but locked
+              const locked = !assignableRoles.includes(member.role);
+              return (
+                <tr key={member.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <div style={{ fontWeight: 500, color: 'var(--text-primary)', fontSize: '0.9375rem' }}>
+                      {member.name || member.email}
+                      {member.user_id === currentUserId && (
+                        <span className="text-tertiary" style={{ fontWeight: 400 }}> (you)</span>
+                      )}
+                    </div>
+                    <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginTop: '0.125rem' }}>
+                      {member.email}
+                    </div>
+                  </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <select
+                      value={member.role}
+                      disabled={locked || busyId === member.id}
+                      onChange={(e) => handleRoleChange(member, e.target.value)}
+                      style={selectStyle}
+                    >
+                      {(locked ? [member.role] : assignableRoles).map((role) => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {new Date(member.joined_at).toLocaleDateString()}
+                  </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    {!locked && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        disabled={busyId === member.id}
+                        className="accent-text"
+                        style={{
+                          padding: '0.25rem 0.5rem',
+                          fontSize: '0.8125rem',
+                          opacity: busyId === member.id ? 0.5 : 1,
+                          cursor: busyId === member.id ? 'not-allowed' : 'pointer',
+                        }}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="card" style={{ overflowX: 'auto' }}>
+        <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: 'var(--spacing-md)', color: 'var(--text-primary)' }}>
+          Pending invitations
+        </h2>
+        {invitations.length === 0 ? (
+          <p className="text-tertiary" style={{ fontSize: '0.875rem' }}>No pending invitations</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: 'var(--bg-tertiary)', borderBottom: '1px solid var(--border)' }}>
+                <th className="text-tertiary" style={headerStyle}>Email</th>
+                <th className="text-tertiary" style={headerStyle}>Role</th>
+                <th className="text-tertiary" style={headerStyle}>Invited by</th>
+                <th className="text-tertiary" style={headerStyle}>Expires</th>
+                <th className="text-tertiary" style={headerStyle}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr key={invitation.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <td style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem', color: 'var(--text-primary)' }}>
+                    {invitation.email}
+                  </td>
+                  <td className="text-secondary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {invitation.role}
+                  </td>
+                  <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {invitation.invited_by || '—'}
+                  </td>
+                  <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {invitation.status === 'EXPIRED'
+                      ? 'Expired'
+                      : new Date(invitation.expires_at).toLocaleDateString()}
+                  </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+                      <button
+                        onClick={() => handleResend(invitation)}
+                        disabled={busyId === invitation.id}
+                        className="text-secondary"
+                        style={{ padding: '0.25rem 0.5rem', fontSize: '0.8125rem', cursor: 'pointer' }}
+                      >
+                        Resend
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        disabled={busyId === invitation.id}
+                        className="accent-text"
+                        style={{ padding: '0.25rem 0.5rem', fontSize: '0.8125rem', cursor: 'pointer' }}
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
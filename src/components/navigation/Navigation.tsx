@@ -4,27 +4,35 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { UserButton } from '@clerk/nextjs';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faHome, faBook, faComments, faDiamond, faDownload } from '@fortawesome/free-solid-svg-icons';
+import { faHome, faBook, faComments, faDiamond, faDownload, faShieldHalved, faUsers, faKey } from '@fortawesome/free-solid-svg-icons';
+import type { Permission } from '@/lib/permissions';
+import TenantSwitcher, { type TenantOption } from './TenantSwitcher';
 
 interface NavigationProps {
   user: {
     name: string | null;
     email: string;
   };
+  permissions: Permission[]; // The user's permissions in the current tenant
+  tenants: TenantOption[];
+  activeTenantId: string;
 }
 
-export default function Navigation({ user }: NavigationProps) {
+export default function Navigation({ user, permissions, tenants, activeTenantId }: NavigationProps) {
   const pathname = usePathname();
   
   const navItems = [
     { href: '/dashboard', label: 'Dashboard', icon: faHome },
-    { href: '/knowledge', label: 'Documents', icon: faBook },
-    { href: '/chat', label: 'Ask Questions', icon: faComments },
-    { href: '/downloads', label: 'Downloads', icon: faDownload },
+    { href: '/knowledge', label: 'Documents', icon: faBook, permission: 'documents:read' as Permission },
+    { href: '/chat', label: 'Ask Questions', icon: faComments, permission: 'knowledge:query' as Permission },
+    { href: '/downloads', label: 'Downloads', icon: faDownload, permission: 'documents:ingest' as Permission },
+    { href: '/members', label: 'Members', icon: faUsers, permission: 'members:manage' as Permission },
+    { href: '/settings/api-keys', label: 'API Keys', icon: faKey, permission: 'api_keys:manage' as Permission },
+    { href: '/admin', label: 'Admin', icon: faShieldHalved, permission: 'tenants:view_all' as Permission },
     // OPUS Workflows - Hidden for now
     // { href: '/workflows', label: 'OPUS Workflows', icon: '⚙️' },
     // { href: '/workflows/monitor', label: 'Monitor', icon: '📊' },
-  ];
+  ].filter(item => !item.permission || permissions.includes(item.permission));
   
   return (
     <nav style={{ 
@@ -109,6 +117,7 @@ export default function Navigation({ user }: NavigationProps) {
           </div>
           
           <div className="flex items-center gap-4">
+            <TenantSwitcher tenants={tenants} activeTenantId={activeTenantId} />
             <div style={{ 
               fontSize: '0.875rem', 
               color: 'var(--text-tertiary)',
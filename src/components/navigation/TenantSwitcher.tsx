@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBuilding } from '@fortawesome/free-solid-svg-icons';
+
+export interface TenantOption {
+  id: string;
+  name: string;
+}
+
+interface TenantSwitcherProps {
+  tenants: TenantOption[]; // Workspaces the user belongs to
+  activeTenantId: string;
+}
+
+export default function TenantSwitcher({ tenants, activeTenantId }: TenantSwitcherProps) {
+  const router = useRouter();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const handleSwitch = async (tenantId: string) => {
+    setIsSwitching(true);
+    try {
+      const response = await fetch('/api/tenants/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenant_id: tenantId }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to switch workspace');
+      }
+      router.refresh();
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const activeTenant = tenants.find(t => t.id === activeTenantId);
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '0.875rem',
+      color: 'var(--text-secondary)'
+    }}>
+      <FontAwesomeIcon icon={faBuilding} style={{ fontSize: '0.8125rem', color: 'var(--text-tertiary)' }} />
+      {tenants.length > 1 ? (
+        <select
+          value={activeTenantId}
+          disabled={isSwitching}
+          onChange={(e) => handleSwitch(e.target.value)}
+          aria-label="Switch workspace"
+          style={{
+            padding: '0.25rem 0.5rem',
+            fontSize: '0.8125rem',
+            fontWeight: 500,
+            borderRadius: 'var(--radius-md)',
+            border: '1px solid var(--border)',
+            backgroundColor: 'var(--bg-secondary)',
+            color: 'var(--text-primary)',
+            maxWidth: '14rem'
+          }}
+        >
+          {tenants.map((tenant) => (
+            <option key={tenant.id} value={tenant.id}>{tenant.name}</option>
+          ))}
+        </select>
+      ) : (
+        <span style={{ fontWeight: 500 }}>{activeTenant?.name}</span>
+      )}
+    </div>
+  );
+}
@@ -13,26 +13,17 @@ import {
   faFlask,
   faFile,
   faChevronRight,
-  faChevronDown
+  faChevronDown,
+  faPen
 } from '@fortawesome/free-solid-svg-icons';
-
-interface AgentTraceStep {
-  step: string;
-  summary: string;
-  durationMs: number;
-  documentsUsed: Array<{
-    id: string;
-    title: string;
-  }>;
-  status?: string;
-  details?: string;
-}
+import type { AgentTraceStep } from '@/lib/types/agent';
 
 interface AgentTimelineProps {
   trace: AgentTraceStep[];
+  live?: boolean; // Steps are still arriving
 }
 
-export default function AgentTimeline({ trace }: AgentTimelineProps) {
+export default function AgentTimeline({ trace, live = false }: AgentTimelineProps) {
   const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
 
   const toggleStep = (index: number) => {
@@ -54,6 +45,7 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
       AUDITOR: faCircleCheck,
       WRITER: faPenNib,
       RE_ANALYSIS: faArrowsRotate,
+      QUERY_REWRITE: faPen,
     };
     return icons[step] || faFlask;
   };
@@ -67,6 +59,7 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
       AUDITOR: '#F59E0B',
       WRITER: '#EC4899',
       RE_ANALYSIS: '#6366F1',
+      QUERY_REWRITE: '#14B8A6',
     };
     return colors[step] || 'var(--accent)';
   };
@@ -80,6 +73,7 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
       AUDITOR: 'Verifies answer quality and completeness',
       WRITER: 'Crafts final polished response',
       RE_ANALYSIS: 'Re-analyzes with additional context',
+      QUERY_REWRITE: 'Rewrites a follow-up as a standalone question',
     };
     return descriptions[step] || 'Processing step';
   };
@@ -119,9 +113,9 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
             width: '6px',
             height: '6px',
             borderRadius: '50%',
-            backgroundColor: 'var(--accent)'
+            backgroundColor: live ? '#F59E0B' : 'var(--accent)'
           }} />
-          {trace.length} steps
+          {live ? `Running · ${trace.length} steps` : `${trace.length} steps`}
         </div>
       </div>
       
@@ -367,6 +361,14 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
                         >
                           <FontAwesomeIcon icon={faFile} style={{ color: 'var(--accent)', fontSize: '0.75rem' }} />
                           <span>{doc.title}</span>
+                          {doc.rerankScore !== undefined && (
+                            <span
+                              title="Cross-encoder relevance"
+                              style={{ marginLeft: 'auto', fontSize: '0.75rem', color: 'var(--text-tertiary)' }}
+                            >
+                              {(doc.rerankScore * 100).toFixed(0)}%
+                            </span>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -376,6 +378,28 @@ export default function AgentTimeline({ trace }: AgentTimelineProps) {
             )}
           </div>
         ))}
+
+        {live && (
+          <div style={{
+            paddingLeft: '3rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--spacing-sm)',
+            fontSize: '0.8125rem',
+            color: 'var(--text-tertiary)',
+            animation: 'fadeIn 0.3s ease'
+          }}>
+            <div className="spinner" style={{
+              width: '14px',
+              height: '14px',
+              border: '2px solid var(--accent-20)',
+              borderTopColor: 'var(--accent)',
+              borderRadius: '50%',
+              animation: 'spin 0.8s linear infinite'
+            }} />
+            {trace.length === 0 ? 'Starting agent...' : 'Working on the next step...'}
+          </div>
+        )}
       </div>
     </div>
   );
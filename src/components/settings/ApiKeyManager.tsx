@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ApiKey {
+  id: string;
+  label: string;
+  prefix: string;
+  scopes: string[];
+  status: string; // ACTIVE, EXPIRED or REVOKED
+  expires_at: Date | string | null;
+  last_used_at: Date | string | null;
+  created_by: string | null;
+  created_at: Date | string;
+}
+
+interface ApiKeyManagerProps {
+  tenantId: string;
+  apiKeys: ApiKey[];
+  scopes: { scope: string; permissions: string[] }[];
+}
+
+const headerStyle = {
+  padding: 'var(--spacing-sm) var(--spacing-md)',
+  textAlign: 'left' as const,
+  fontSize: '0.75rem',
+  fontWeight: 500,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  fontSize: '0.875rem',
+  borderRadius: 'var(--radius-md)',
+  border: '1px solid var(--border)',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+};
+
+const formatDate = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleDateString() : '—';
+
+export default function ApiKeyManager({ tenantId, apiKeys, scopes }: ApiKeyManagerProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>(['INGEST']);
+  const [expiresAt, setExpiresAt] = useState('');
+  // Plaintext of a key just created or rotated; gone on the next action
+  const [revealed, setRevealed] = useState<{ label: string; key: string } | null>(null);
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setActionError(null);
+    setRevealed(null);
+    try {
+      const response = await action();
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Action failed');
+      }
+      if (result.key) {
+        setRevealed({ label: result.label, key: result.key });
+      }
+      router.refresh();
+      return true;
+    } catch (error: any) {
+      setActionError(error.message);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleScope = (scope: string) =>
+    setSelectedScopes(prev =>
+      prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]
+    );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await runAction('create', () => fetch('/api/settings/api-keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tenant_id: tenantId,
+        label,
+        scopes: selectedScopes,
+        expires_at: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+      }),
+    }));
+    if (created) {
+      setLabel('');
+      setExpiresAt('');
+    }
+  };
+
+  const handleRotate = (apiKey: ApiKey) => {
+    if (!confirm(`Rotate "${apiKey.label}"? The current key stops working immediately.`)) return;
+    runAction(apiKey.id, () => fetch(`/api/settings/api-keys/${apiKey.id}/rotate`, { method: 'POST' }));
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.label}"? Integrations using it stop working.`)) return;
+    runAction(apiKey.id, () => fetch(`/api/settings/api-keys/${apiKey.id}`, { method: 'DELETE' }));
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleCreate} className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
+        <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: 'var(--spacing-md)', color: 'var(--text-primary)' }}>
+          Create a key
+        </h2>
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+          <input
+            required
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, e.g. FileSense on the finance share"
+            style={{ ...inputStyle, flex: 1, minWidth: '16rem' }}
+          />
+          <label className="text-secondary" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.875rem' }}>
+            Expires
+            <input
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+        <div style={{ display: 'flex', gap: 'var(--spacing-lg)', flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+          {scopes.map(({ scope, permissions }) => (
+            <label
+              key={scope}
+              title={permissions.join(', ')}
+              style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: '0.875rem', color: 'var(--text-primary)' }}
+            >
+              <input
+                type="checkbox"
+                checked={selectedScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={busyId === 'create' || selectedScopes.length === 0}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busyId === 'create' ? 'Creating...' : 'Create key'}
+        </button>
+      </form>
+
+      {revealed && (
+        <div className="card" style={{ marginBottom: 'var(--spacing-xl)', border: '1px solid var(--accent-20)' }}>
+          <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: 'var(--spacing-xs)', color: 'var(--text-primary)' }}>
+            {revealed.label}
+          </h3>
+          <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+            Copy this key now. It is stored hashed and will not be shown again.
+          </p>
+          <code style={{
+            display: 'block',
+            padding: 'var(--spacing-sm) var(--spacing-md)',
+            backgroundColor: 'var(--bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            fontSize: '0.8125rem',
+            wordBreak: 'break-all',
+            color: 'var(--text-primary)'
+          }}>
+            {revealed.key}
+          </code>
+        </div>
+      )}
+
+      {actionError && (
+        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+          {actionError}
+        </p>
+      )}
+
+      <div className="card" style={{ overflowX: 'auto' }}>
+        <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: 'var(--spacing-md)', color: 'var(--text-primary)' }}>
+          Keys
+        </h2>
+        {apiKeys.length === 0 ? (
+          <p className="text-tertiary" style={{ fontSize: '0.875rem' }}>No API keys yet</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: 'var(--bg-tertiary)', borderBottom: '1px solid var(--border)' }}>
+                <th className="text-tertiary" style={headerStyle}>Key</th>
+                <th className="text-tertiary" style={headerStyle}>Scopes</th>
+                <th className="text-tertiary" style={headerStyle}>Status</th>
+                <th className="text-tertiary" style={headerStyle}>Expires</th>
+                <th className="text-tertiary" style={headerStyle}>Last used</th>
+                <th className="text-tertiary" style={headerStyle}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.map((apiKey) => (
+                <tr
+                  key={apiKey.id}
+                  style={{
+                    borderBottom: '1px solid var(--border-subtle)',
+                    opacity: apiKey.status === 'ACTIVE' ? 1 : 0.6
+                  }}
+                >
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <div style={{ fontWeight: 500, color: 'var(--text-primary)', fontSize: '0.9375rem' }}>
+                      {apiKey.label}
+                    </div>
+                    <div className="text-tertiary" style={{ fontSize: '0.8125rem', marginTop: '0.125rem' }}>
+                      <code>{apiKey.prefix}…</code>
+                      {apiKey.created_by && ` · ${apiKey.created_by}`}
+                    </div>
+                  </td>
+                  <td className="text-secondary" style={{ padding: 'var(--spacing-md)', fontSize: '0.8125rem' }}>
+                    {apiKey.scopes.join(', ')}
+                  </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    <span style={{
+                      padding: '0.25rem 0.625rem',
+                      fontSize: '0.75rem',
+                      fontWeight: 600,
+                      borderRadius: '0.375rem',
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.025em',
+                      ...(apiKey.status === 'ACTIVE'
+                        ? { backgroundColor: 'var(--accent-10)', color: 'var(--accent)' }
+                        : { backgroundColor: 'var(--bg-tertiary)', color: 'var(--text-tertiary)' })
+                    }}>
+                      {apiKey.status}
+                    </span>
+                  </td>
+                  <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {apiKey.expires_at ? formatDate(apiKey.expires_at) : 'Never'}
+                  </td>
+                  <td className="text-tertiary" style={{ padding: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                    {apiKey.last_used_at ? formatDate(apiKey.last_used_at) : 'Never'}
+                  </td>
+                  <td style={{ padding: 'var(--spacing-md)' }}>
+                    {apiKey.status !== 'REVOKED' && (
+                      <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+                        <button
+                          onClick={() => handleRotate(apiKey)}
+                          disabled={busyId === apiKey.id}
+                          className="text-secondary"
+                          style={{ padding: '0.25rem 0.5rem', fontSize: '0.8125rem', cursor: 'pointer' }}
+                        >
+                          Rotate
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(apiKey)}
+                          disabled={busyId === apiKey.id}
+                          className="accent-text"
+                          style={{ padding: '0.25rem 0.5rem', fontSize: '0.8125rem', cursor: 'pointer' }}
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,132 +1,190 @@
 /**
  * Agentic Reasoning Pipeline
- * Orchestrates the multi-step Q&A process with Gemini AI
+ * The `pipeline` and `multimodal` query modes: multi-step Q&A on the tenant's models
+ * Run through the orchestrator, which persists the session
  */
 
 import { 
-  generateEmbedding, 
   runGatekeeper, 
   runPlanner, 
   runAnalyst, 
   runAuditor, 
   runFinalWriter,
+  runGapQueryPlanner,
   runMultimodalQuery,
   runDocumentAnalysis,
-  MultimodalFile 
+  type RetrievalPlan,
+  type SearchStrategy
 } from './gemini';
-import { qdrant } from './qdrant';
-import { prisma } from './db';
+import { retrieveChunks, documentsFromChunks, type RetrievalFilter, type RetrievedChunk } from './retrieval';
+import { describeQueryFilter } from './query_filter';
+import { resolveCitations } from './citations';
 import { StepTimer } from './metrics';
+import type { AgentTraceStep, ModeRequest, ModeResult } from './types/agent';
 
-export interface AgentTraceStep {
-  step: string;
-  summary: string;
-  durationMs: number;
-  documentsUsed: Array<{
-    id: string;
-    title: string;
-  }>;
-  status?: string;
-  details?: string;
+// Answers auditing below this score get re-analysis passes
+const QUALITY_THRESHOLD = 0.7;
+
+export interface ReanalysisLimits {
+  maxPasses: number; // Extra retrieval + analysis passes (0 disables)
+  budgetMs: number; // No new pass starts once the pipeline has run this long
 }
 
-export interface AgentPipelineResult {
-  sessionId: string;
-  answer: string;
-  qualityScore: number;
-  trace: AgentTraceStep[];
-  totalLatencyMs: number;
+/**
+ * Re-analysis limits from REANALYSIS_MAX_PASSES / REANALYSIS_BUDGET_MS
+ */
+export function getReanalysisLimits(): ReanalysisLimits {
+  const maxPasses = parseInt(process.env.REANALYSIS_MAX_PASSES || '2', 10);
+  const budgetMs = parseInt(process.env.REANALYSIS_BUDGET_MS || '30000', 10);
+  return {
+    maxPasses: Number.isFinite(maxPasses) && maxPasses >= 0 ? maxPasses : 2,
+    budgetMs: Number.isFinite(budgetMs) && budgetMs > 0 ? budgetMs : 30000,
+  };
 }
 
-export interface AgentPipelineOptions {
-  question: string;
-  tenantId: string;
-  userId?: string;
-  contextTags?: string[];
-  files?: MultimodalFile[];
+// Total chunks retrieved for each planned strategy, shared by the sub-queries
+const RETRIEVAL_K: Record<SearchStrategy, number> = {
+  focused: 5,
+  broad: 8,
+  comprehensive: 12,
+};
+
+// Context chunks retrieved alongside attached files
+const MULTIMODAL_CONTEXT_K = 3;
+
+interface PlannedSearch {
+  query: string;
+  found: number;
+  unfiltered: boolean; // Nothing matched the planned categories, so all were searched
+}
+
+/**
+ * Run the question and each planned sub-query, then merge the results
+ * round-robin by rank so every part of the question gets evidence
+ * The caller's filter always applies; the planned categories are only a
+ * preference, used when the caller didn't choose categories
+ */
+async function retrieveForPlan(
+  question: string,
+  plan: RetrievalPlan,
+  tenantId: string,
+  limit: number,
+  filter: RetrievalFilter
+): Promise<{ chunks: RetrievedChunk[]; searches: PlannedSearch[] }> {
+  const queries = Array.from(new Set([question, ...plan.subQueries].map(q => q.trim())));
+  const perQuery = Math.max(3, Math.ceil(limit / queries.length));
+  const usePlannedTypes = plan.docTypes.length > 0 && !filter.docTypes?.length;
+
+  const results = await Promise.all(queries.map(async (query) => {
+    const chunks = await retrieveChunks({
+      query,
+      tenantId,
+      limit: perQuery,
+      filter: usePlannedTypes ? { ...filter, docTypes: plan.docTypes } : filter,
+    });
+    // A wrong category guess shouldn't leave a sub-query without evidence
+    if (chunks.length === 0 && usePlannedTypes) {
+      return {
+        query,
+        unfiltered: true,
+        chunks: await retrieveChunks({ query, tenantId, limit: perQuery, filter }),
+      };
+    }
+    return { query, unfiltered: false, chunks };
+  }));
+
+  const merged: RetrievedChunk[] = [];
+  const seen = new Set<string>();
+  for (let rank = 0; rank < perQuery && merged.length < limit; rank++) {
+    for (const result of results) {
+      const chunk = result.chunks[rank];
+      if (!chunk || seen.has(chunk.chunkId)) continue;
+      seen.add(chunk.chunkId);
+      merged.push(chunk);
+      if (merged.length >= limit) break;
+    }
+  }
+
+  return {
+    chunks: merged,
+    searches: results.map(r => ({ query: r.query, found: r.chunks.length, unfiltered: r.unfiltered })),
+  };
 }
 
 /**
  * Main agent pipeline
  */
-export async function runAgentPipeline(options: AgentPipelineOptions): Promise<AgentPipelineResult> {
-  const { question, tenantId, userId, contextTags = [], files = [] } = options;
+export async function runAgentPipeline(
+  request: ModeRequest,
+  limits: ReanalysisLimits = getReanalysisLimits()
+): Promise<ModeResult> {
+  const { question, tenantId, filter, handlers, history, models } = request;
+  const pipelineStart = Date.now();
   
   console.log(`🔍 Processing query: "${question.substring(0, 60)}${question.length > 60 ? '...' : ''}"`);
   
   const timer = new StepTimer();
   const trace: AgentTraceStep[] = [];
+  const record = (step: AgentTraceStep) => {
+    trace.push(step);
+    handlers.onStep?.(step);
+  };
   const documentsUsed = new Set<string>();
 
-  // Handle multimodal queries (images, videos, documents)
-  if (files && files.length > 0) {
-    console.log(`📎 Multimodal query with ${files.length} file(s)`);
-    return await runMultimodalPipeline({ question, tenantId, userId, files });
-  }
+  // Step 1: Planner - split the question and pick categories before searching
+  const plan = await runPlanner(models.planner, question);
+  timer.markStep('PLANNER');
 
-  // Step 1: Initial Retrieval (get relevant chunks first)
-  const retrievalStartTime = Date.now();
-  const questionEmbedding = await generateEmbedding(question);
-  
-  // Do a focused search to get most relevant context (reduced to 5 to avoid quota issues)
-  const searchResults = await qdrant.search(questionEmbedding, tenantId, {
-    limit: 5,
+  record({
+    step: 'PLANNER',
+    summary: `Planned ${plan.searchStrategy} search with ${plan.subQueries.length} sub-quer${plan.subQueries.length === 1 ? 'y' : 'ies'} across ${plan.docTypes.length > 0 ? plan.docTypes.join(', ') : 'all categories'}`,
+    durationMs: timer.getSteps()[0].durationMs,
+    documentsUsed: [],
+    status: 'success',
+    details: `Strategy: ${plan.searchStrategy}\nDocument types: ${plan.docTypes.length > 0 ? plan.docTypes.join(', ') : 'All'}\nFilter: ${describeQueryFilter(filter)}\nSub-queries:\n${plan.subQueries.map(q => `- ${q}`).join('\n')}`,
   });
-  
-  const retrievalLatencyMs = Date.now() - retrievalStartTime;
-  timer.markStep('RETRIEVER');
 
-  // Get full document info
-  const chunkIds = searchResults.map(r => r.id);
-  const chunks = await prisma.documentChunk.findMany({
-    where: {
-      qdrantPointId: {
-        in: chunkIds,
-      },
-    },
-    include: {
-      document: {
-        select: {
-          id: true,
-          title: true,
-          docType: true,
-        },
-      },
-    },
-  });
+  // Step 2: Retrieval - every sub-query, filtered to the planned categories
+  const retrievalStartTime = Date.now();
+  let retrievalK = RETRIEVAL_K[plan.searchStrategy];
+  const { chunks: retrieved, searches } = await retrieveForPlan(question, plan, tenantId, retrievalK, filter);
+  let retrievalLatencyMs = Date.now() - retrievalStartTime;
+  timer.markStep('RETRIEVER');
 
-  const evidence = chunks.map((chunk: any) => {
-    documentsUsed.add(chunk.document.id);
+  const evidence = retrieved.map(chunk => {
+    documentsUsed.add(chunk.documentId);
     return {
       text: chunk.text,
-      docType: chunk.document.docType,
-      title: chunk.document.title,
-      documentId: chunk.document.id,
+      docType: chunk.docType,
+      title: chunk.title,
+      documentId: chunk.documentId,
     };
   });
 
-  const docsArray = Array.from(documentsUsed).map(docId => {
-    const doc = chunks.find((c: any) => c.document.id === docId)?.document;
-    return { id: docId, title: doc?.title || 'Unknown' };
-  });
+  const docsArray = documentsFromChunks(retrieved);
+
+  const keywordMatches = retrieved.filter(c => c.keywordScore !== undefined).length;
+  const vectorMatches = retrieved.filter(c => c.vectorScore !== undefined).length;
+  const reranked = retrieved.filter(c => c.rerankScore !== undefined);
+  const unfiltered = searches.filter(s => s.unfiltered).length;
 
-  trace.push({
+  record({
     step: 'RETRIEVER',
-    summary: `Found ${searchResults.length} relevant chunks from ${documentsUsed.size} documents`,
-    durationMs: timer.getSteps()[0].durationMs,
+    summary: `Found ${retrieved.length} relevant chunks from ${documentsUsed.size} documents for ${searches.length} sub-quer${searches.length === 1 ? 'y' : 'ies'}`,
+    durationMs: timer.getSteps()[1].durationMs,
     documentsUsed: docsArray,
-    status: 'success',
-    details: `Search results: ${searchResults.length} chunks\nUnique documents: ${documentsUsed.size}\nAverage similarity: ${searchResults.length > 0 ? (searchResults.reduce((sum: number, r: any) => sum + r.score, 0) / searchResults.length).toFixed(3) : 'N/A'}`,
-  } as any);
+    status: searches.some(s => s.found === 0) ? 'warning' : 'success',
+    details: `Search results: ${retrieved.length} of ${retrievalK} chunks (${vectorMatches} vector, ${keywordMatches} keyword matches)\nPer sub-query:\n${searches.map(s => `- ${s.query}: ${s.found}${s.unfiltered ? ' (no match in planned categories, searched all)' : ''}`).join('\n')}${unfiltered > 0 ? `\nCategory filter dropped for ${unfiltered} sub-quer${unfiltered === 1 ? 'y' : 'ies'}` : ''}\nUnique documents: ${documentsUsed.size}\nAverage fused score: ${retrieved.length > 0 ? (retrieved.reduce((sum, r) => sum + r.score, 0) / retrieved.length).toFixed(4) : 'N/A'}\nAverage rerank score: ${reranked.length > 0 ? (reranked.reduce((sum, r) => sum + (r.rerankScore || 0), 0) / reranked.length).toFixed(3) : 'N/A'}`,
+  });
 
-  // Step 2: Gatekeeper (with context from retrieved chunks)
+  // Step 3: Gatekeeper (with context from retrieved chunks)
   const gatekeeperResult = await runGatekeeper(question, evidence);
   timer.markStep('GATEKEEPER');
   
-  trace.push({
+  record({
     step: 'GATEKEEPER',
     summary: `Safety & clarity check: ${gatekeeperResult.status}`,
-    durationMs: timer.getSteps()[1].durationMs,
+    durationMs: timer.getSteps()[2].durationMs,
     documentsUsed: [],
     status: gatekeeperResult.status,
     details: gatekeeperResult.status === 'approved' 
@@ -144,25 +202,11 @@ export async function runAgentPipeline(options: AgentPipelineOptions): Promise<A
     throw new Error(`Clarification needed: ${gatekeeperResult.clarificationQuestion}`);
   }
 
-  // Step 3: Planner (with context from retrieved chunks)
-  const plan = await runPlanner(question, evidence);
-  timer.markStep('PLANNER');
-  
-  trace.push({
-    step: 'PLANNER',
-    summary: `Planned ${plan.searchStrategy} search across ${plan.docTypes.length} document types`,
-    durationMs: timer.getSteps()[2].durationMs,
-    documentsUsed: [],
-    status: 'success',
-    details: `Strategy: ${plan.searchStrategy}\nDocument types: ${plan.docTypes.join(', ')}\nSub-queries: ${plan.subQueries?.length || 0}`,
-  } as any);
-
   // Step 4: Analyst
-  const geminiStartTime = Date.now();
-  const analysis = await runAnalyst(question, evidence);
+  const analysis = await runAnalyst(models.analyst, question, evidence, history);
   timer.markStep('ANALYST');
 
-  trace.push({
+  record({
     step: 'ANALYST',
     summary: `Synthesized answer from ${evidence.length} evidence pieces`,
     durationMs: timer.getSteps()[3].durationMs,
@@ -172,140 +216,177 @@ export async function runAgentPipeline(options: AgentPipelineOptions): Promise<A
   } as any);
 
   // Step 5: Auditor
-  const audit = await runAuditor(question, evidence, analysis);
+  const audit = await runAuditor(models.auditor, question, evidence, analysis);
   timer.markStep('AUDITOR');
 
-  trace.push({
+  record({
     step: 'AUDITOR',
     summary: `Quality validated: ${(audit.qualityScore * 100).toFixed(0)}% score`,
     durationMs: timer.getSteps()[4].durationMs,
     documentsUsed: [],
-    status: audit.qualityScore >= 0.7 ? 'success' : 'warning',
-    details: `Quality score: ${(audit.qualityScore * 100).toFixed(0)}%\nGrounding check: ${audit.groundingCheck ? '✓ Pass' : '✗ Fail'}\nCoverage check: ${audit.coverageCheck ? '✓ Pass' : '✗ Fail'}\nMissing aspects: ${audit.missingAspects.length > 0 ? audit.missingAspects.join(', ') : 'None'}`,
+    status: audit.qualityScore >= QUALITY_THRESHOLD ? 'success' : 'warning',
+    details: `Model: ${models.auditor.model.id}\nQuality score: ${(audit.qualityScore * 100).toFixed(0)}%\nGrounding check: ${audit.groundingCheck ? '✓ Pass' : '✗ Fail'}\nCoverage check: ${audit.coverageCheck ? '✓ Pass' : '✗ Fail'}\nMissing aspects: ${audit.missingAspects.length > 0 ? audit.missingAspects.join(', ') : 'None'}`,
   } as any);
 
-  // Step 6: Optional second analyst pass if quality is low
+  // Step 6: Self-correction - while the audit is below threshold, search for
+  // what it found missing and re-analyze with the extra evidence
   let finalAnalysis = analysis;
-  if (audit.qualityScore < 0.7 && audit.missingAspects.length > 0) {
-    // In a full implementation, we'd do another retrieval + analysis pass
-    trace.push({
+  let finalAudit = audit;
+  const initialQuality = audit.qualityScore;
+
+  for (let pass = 1; pass <= limits.maxPasses && finalAudit.qualityScore < QUALITY_THRESHOLD; pass++) {
+    const passStart = Date.now();
+
+    if (passStart - pipelineStart > limits.budgetMs) {
+      record({
+        step: 'RE_ANALYSIS',
+        summary: `Stopped before pass ${pass}: ${limits.budgetMs}ms budget used`,
+        durationMs: 0,
+        documentsUsed: [],
+        status: 'warning',
+      });
+      break;
+    }
+
+    const missingAspects = finalAudit.missingAspects.length > 0
+      ? finalAudit.missingAspects
+      : ['Parts of the question the answer does not cover'];
+    const subQueries = await runGapQueryPlanner(models.planner, question, finalAnalysis.answer, missingAspects);
+
+    // Targeted retrieval, keeping only chunks not already in evidence
+    const seen = new Set(retrieved.map(chunk => chunk.chunkId));
+    const gapRetrievalStart = Date.now();
+    const found = await Promise.all(
+      subQueries.map(query => retrieveChunks({ query, tenantId, limit: 3, filter }))
+    );
+    retrievalK += subQueries.length * 3;
+    retrievalLatencyMs += Date.now() - gapRetrievalStart;
+    const newChunks = found.flat().filter(chunk => {
+      if (seen.has(chunk.chunkId)) return false;
+      seen.add(chunk.chunkId);
+      return true;
+    });
+
+    if (newChunks.length === 0) {
+      timer.markStep('RE_ANALYSIS');
+      record({
+        step: 'RE_ANALYSIS',
+        summary: `Pass ${pass}: no new evidence found, keeping answer at ${(finalAudit.qualityScore * 100).toFixed(0)}%`,
+        durationMs: Date.now() - passStart,
+        documentsUsed: [],
+        status: 'warning',
+        details: `Missing aspects: ${missingAspects.join(', ')}\nSub-queries:\n${subQueries.map(q => `- ${q}`).join('\n')}`,
+      });
+      break;
+    }
+
+    // New evidence is appended so existing [n] references stay valid
+    retrieved.push(...newChunks);
+    for (const chunk of newChunks) {
+      documentsUsed.add(chunk.documentId);
+      evidence.push({
+        text: chunk.text,
+        docType: chunk.docType,
+        title: chunk.title,
+        documentId: chunk.documentId,
+      });
+    }
+
+    const revised = await runAnalyst(models.analyst, question, evidence, history, {
+      previousAnswer: finalAnalysis.answer,
+      missingAspects,
+    });
+    const revisedAudit = await runAuditor(models.auditor, question, evidence, revised);
+    const before = finalAudit.qualityScore;
+    const improved = revisedAudit.qualityScore >= before;
+
+    if (improved) {
+      finalAnalysis = revised;
+      finalAudit = revisedAudit;
+    }
+    timer.markStep('RE_ANALYSIS');
+
+    record({
       step: 'RE_ANALYSIS',
-      summary: 'Skipped (would improve answer based on audit feedback)',
-      durationMs: 0,
-      documentsUsed: [],
+      summary: improved
+        ? `Pass ${pass}: quality ${(before * 100).toFixed(0)}% → ${(revisedAudit.qualityScore * 100).toFixed(0)}% with ${newChunks.length} new chunks`
+        : `Pass ${pass}: revision scored ${(revisedAudit.qualityScore * 100).toFixed(0)}%, kept previous answer at ${(before * 100).toFixed(0)}%`,
+      durationMs: Date.now() - passStart,
+      documentsUsed: documentsFromChunks(newChunks),
+      status: improved ? 'success' : 'warning',
+      details: `Missing aspects: ${missingAspects.join(', ')}\nSub-queries:\n${subQueries.map(q => `- ${q}`).join('\n')}\nNew chunks: ${newChunks.length}\nQuality: ${(before * 100).toFixed(0)}% → ${(revisedAudit.qualityScore * 100).toFixed(0)}%\nStill missing: ${revisedAudit.missingAspects.length > 0 ? revisedAudit.missingAspects.join(', ') : 'None'}`,
     });
   }
 
   // Step 7: Final Writer
-  const finalAnswer = await runFinalWriter(question, finalAnalysis, audit);
-  const geminiLatencyMs = Date.now() - geminiStartTime;
+  const { answer: finalAnswer, citations, droppedMarkers } = resolveCitations(
+    await runFinalWriter(question, finalAnalysis, finalAudit),
+    retrieved
+  );
   timer.markStep('WRITER');
 
-  trace.push({
+  record({
     step: 'WRITER',
     summary: 'Crafted final polished response',
     durationMs: timer.getSteps()[timer.getSteps().length - 1].durationMs,
     documentsUsed: [],
     status: 'success',
-    details: `Answer length: ${finalAnswer.length} characters\nBased on: ${finalAnalysis.evidenceReferences.length} evidence pieces\nQuality: ${(audit.qualityScore * 100).toFixed(0)}%`,
+    details: `Answer length: ${finalAnswer.length} characters\nBased on: ${finalAnalysis.evidenceReferences.length} evidence pieces\nCitations: ${citations.length}${droppedMarkers.length > 0 ? ` (dropped unknown ${droppedMarkers.map(n => `[${n}]`).join(', ')})` : ''}\nQuality: ${(finalAudit.qualityScore * 100).toFixed(0)}%${finalAudit.qualityScore !== initialQuality ? ` (first pass ${(initialQuality * 100).toFixed(0)}%)` : ''}`,
   } as any);
 
-  const totalLatencyMs = timer.getTotalDuration();
-
-  // Save session to database
-  const session = await prisma.qaSession.create({
-    data: {
-      tenantId,
-      userId,
-      question,
-      finalAnswer,
-      agentTrace: trace as any,
-      qualityScore: audit.qualityScore,
-      totalLatencyMs,
-    },
-  });
-
-  // Save metrics
-  await prisma.qaMetrics.create({
-    data: {
-      qaSessionId: session.id,
-      tenantId,
-      retrievalK: plan.searchStrategy === 'comprehensive' ? 20 : 10,
-      retrievalUsed: searchResults.length,
-      retrievalLatencyMs,
-      geminiLatencyMs,
-    },
-  });
-
   return {
-    sessionId: session.id,
     answer: finalAnswer,
-    qualityScore: audit.qualityScore,
+    citations,
+    qualityScore: finalAudit.qualityScore,
     trace,
-    totalLatencyMs,
+    retrieval: {
+      retrievalK,
+      retrievalUsed: retrieved.length,
+      retrievalLatencyMs,
+    },
   };
 }
 
 /**
  * Multimodal Pipeline: Handle image, video, and document queries
  */
-async function runMultimodalPipeline(options: {
-  question: string;
-  tenantId: string;
-  userId?: string;
-  files: MultimodalFile[];
-}): Promise<AgentPipelineResult> {
-  const { question, tenantId, userId, files } = options;
+export async function runMultimodalPipeline(request: ModeRequest): Promise<ModeResult> {
+  const { question, tenantId, filter, files, handlers, models } = request;
   
   const timer = new StepTimer();
   const trace: AgentTraceStep[] = [];
+  const record = (step: AgentTraceStep) => {
+    trace.push(step);
+    handlers.onStep?.(step);
+  };
   const startTime = Date.now();
 
   // Step 1: Retrieve relevant context (optional, can enhance answers)
   let evidence: Array<{ text: string; docType: string; title: string; documentId: string }> = [];
+  let retrieved: RetrievedChunk[] = [];
   const documentsUsed = new Set<string>();
 
-    try {
-    const questionEmbedding = await generateEmbedding(question);
-    const searchResults = await qdrant.search(questionEmbedding, tenantId, {
-      limit: 3, // Minimal context for multimodal queries to avoid quota issues
-    });    const chunkIds = searchResults.map(r => r.id);
-    const chunks = await prisma.documentChunk.findMany({
-      where: {
-        qdrantPointId: {
-          in: chunkIds,
-        },
-      },
-      include: {
-        document: {
-          select: {
-            id: true,
-            title: true,
-            docType: true,
-          },
-        },
-      },
+  try {
+    retrieved = await retrieveChunks({
+      query: question,
+      tenantId,
+      limit: MULTIMODAL_CONTEXT_K, // Minimal context for multimodal queries to avoid quota issues
+      filter,
     });
 
-    evidence = chunks.map((chunk: any) => {
-      documentsUsed.add(chunk.document.id);
+    evidence = retrieved.map(chunk => {
+      documentsUsed.add(chunk.documentId);
       return {
         text: chunk.text,
-        docType: chunk.document.docType,
-        title: chunk.document.title,
-        documentId: chunk.document.id,
+        docType: chunk.docType,
+        title: chunk.title,
+        documentId: chunk.documentId,
       };
     });
 
-    const docsArray = Array.from(documentsUsed).map(docId => {
-      const chunk = chunks.find((c: any) => c.document.id === docId);
-      return {
-        id: docId,
-        title: chunk ? (chunk as any).document.title : 'Unknown',
-      };
-    });
+    const docsArray = documentsFromChunks(retrieved);
 
-    trace.push({
+    record({
       step: 'RETRIEVER',
       summary: `Retrieved ${evidence.length} context chunks`,
       durationMs: Date.now() - startTime,
@@ -319,8 +400,9 @@ async function runMultimodalPipeline(options: {
   }
 
   timer.markStep('RETRIEVER');
+  const retrievalLatencyMs = Date.now() - startTime;
 
-  // Step 2: Analyze media files with Gemini multimodal
+  // Step 2: Analyze media files with the multimodal model
   const analysisStartTime = Date.now();
   
   // Detect file types
@@ -335,27 +417,27 @@ async function runMultimodalPipeline(options: {
   
   if (imageVideoFiles.length > 0) {
     // Process images/videos with multimodal model
-    result = await runMultimodalQuery(question, imageVideoFiles, evidence);
+    result = await runMultimodalQuery(models.multimodal, question, imageVideoFiles, evidence);
     
-    trace.push({
+    record({
       step: 'MULTIMODAL_ANALYSIS',
       summary: `Analyzed ${imageVideoFiles.length} media file(s)`,
       durationMs: Date.now() - analysisStartTime,
       documentsUsed: [],
       status: 'success',
-      details: `Media types: ${imageVideoFiles.map(f => f.mimeType).join(', ')}\nObservations: ${result.mediaAnalysis.length}`,
+      details: `Model: ${models.multimodal.model.id}\nMedia types: ${imageVideoFiles.map(f => f.mimeType).join(', ')}\nObservations: ${result.mediaAnalysis.length}`,
     });
   } else if (documentFiles.length > 0) {
     // Process document files
-    result = await runDocumentAnalysis(question, documentFiles[0]);
+    result = await runDocumentAnalysis(models.multimodal, question, documentFiles[0], evidence);
     
-    trace.push({
+    record({
       step: 'DOCUMENT_ANALYSIS',
       summary: `Analyzed document: ${documentFiles[0].filename || 'uploaded file'}`,
       durationMs: Date.now() - analysisStartTime,
       documentsUsed: [],
       status: 'success',
-      details: `Document type: ${documentFiles[0].mimeType}\nExtracted info: ${result.extractedInfo.length} items`,
+      details: `Model: ${models.multimodal.model.id}\nDocument type: ${documentFiles[0].mimeType}\nExtracted info: ${result.extractedInfo.length} items`,
     });
   } else {
     throw new Error('No valid files provided');
@@ -363,26 +445,17 @@ async function runMultimodalPipeline(options: {
 
   timer.markStep('ANALYSIS');
 
-  const totalLatencyMs = timer.getTotalDuration();
-
-  // Save session
-  const session = await prisma.qaSession.create({
-    data: {
-      tenantId,
-      userId,
-      question,
-      finalAnswer: result.answer,
-      agentTrace: trace as any,
-      qualityScore: result.confidence,
-      totalLatencyMs,
-    },
-  });
+  const { answer, citations } = resolveCitations(result.answer, retrieved);
 
   return {
-    sessionId: session.id,
-    answer: result.answer,
+    answer,
+    citations,
     qualityScore: result.confidence,
     trace,
-    totalLatencyMs,
+    retrieval: {
+      retrievalK: MULTIMODAL_CONTEXT_K,
+      retrievalUsed: retrieved.length,
+      retrievalLatencyMs,
+    },
   };
 }
@@ -0,0 +1,198 @@
+/**
+ * External API Keys
+ * Keys are shown once when created or rotated; the database keeps their
+ * SHA-256 and a short prefix to recognize them by. Each key carries scopes
+ * (permissions.ts), an optional expiry and the time it was last used
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKeyScope, ExternalApiKey, Tenant, User } from '@prisma/client';
+import { prisma } from './db';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['READ_ONLY', 'INGEST', 'QUERY', 'WORKFLOWS'];
+
+const KEY_PREFIX = 'KORASENSE_';
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+// lastUsedAt is a hint, not an audit log: skip the write on bursts of requests
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type ApiKeyStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+
+export interface ApiKeyInput {
+  label: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date | null;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function getApiKeyStatus(apiKey: ExternalApiKey): ApiKeyStatus {
+  if (apiKey.revokedAt) return 'REVOKED';
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return 'EXPIRED';
+  return 'ACTIVE';
+}
+
+/**
+ * Validate a create request body: { label, scopes, expires_at? }
+ * expires_at is an ISO date in the future, or null/absent for no expiry
+ */
+export function parseApiKeyInput(body: any): ApiKeyInput | { error: string } {
+  const { label, scopes, expires_at } = body ?? {};
+
+  if (!label || typeof label !== 'string' || label.trim().length === 0) {
+    return { error: 'label must be a non-empty string' };
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return { error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` };
+  }
+  const invalid = scopes.filter(scope => !isApiKeyScope(scope));
+  if (invalid.length > 0) {
+    return { error: `Unknown scope(s) ${invalid.join(', ')}. Expected: ${API_KEY_SCOPES.join(', ')}` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (expires_at !== undefined && expires_at !== null && expires_at !== '') {
+    expiresAt = new Date(expires_at);
+    if (isNaN(expiresAt.getTime())) {
+      return { error: 'expires_at must be an ISO date' };
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return { error: 'expires_at must be in the future' };
+    }
+  }
+
+  return {
+    label: label.trim(),
+    scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+    expiresAt,
+  };
+}
+
+function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('hex')}`;
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Create a key; the returned plaintext key is never retrievable again
+ */
+export async function createApiKey(
+  tenantId: string,
+  input: ApiKeyInput,
+  createdById: string | null
+): Promise<{ apiKey: ExternalApiKey; key: string }> {
+  const { key, keyHash, prefix } = generateApiKey();
+
+  const apiKey = await prisma.externalApiKey.create({
+    data: {
+      tenantId,
+      keyHash,
+      prefix,
+      label: input.label,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+      createdById,
+    },
+  });
+
+  console.log(`🔑 API key ${prefix}… created for tenant ${tenantId}`);
+  return { apiKey, key };
+}
+
+/**
+ * Replace a key with a new one of the same label, scopes and expiry
+ * The old key stops working immediately
+ */
+export async function rotateApiKey(
+  apiKey: ExternalApiKey,
+  createdById: string | null
+): Promise<{ apiKey: ExternalApiKey; key: string }> {
+  const { key, keyHash, prefix } = generateApiKey();
+
+  const [, rotated] = await prisma.$transaction([
+    prisma.externalApiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.externalApiKey.create({
+      data: {
+        tenantId: apiKey.tenantId,
+        keyHash,
+        prefix,
+        label: apiKey.label,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+        createdById,
+      },
+    }),
+  ]);
+
+  console.log(`🔑 API key ${apiKey.prefix}… rotated to ${prefix}…`);
+  return { apiKey: rotated, key };
+}
+
+export async function revokeApiKey(apiKey: ExternalApiKey): Promise<ExternalApiKey> {
+  return prisma.externalApiKey.update({
+    where: { id: apiKey.id },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Resolve a presented key to its record and tenant
+ * Returns null for unknown, revoked and expired keys
+ */
+export async function verifyApiKey(key: string): Promise<(ExternalApiKey & { tenant: Tenant }) | null> {
+  const apiKey = await prisma.externalApiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { tenant: true },
+  });
+
+  if (!apiKey || getApiKeyStatus(apiKey) !== 'ACTIVE') {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    // Fire and forget: a failed timestamp must not fail the request
+    prisma.externalApiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    }).catch(error => console.error('Failed to record API key use:', error));
+  }
+
+  return apiKey;
+}
+
+export async function listApiKeys(tenantId: string) {
+  return prisma.externalApiKey.findMany({
+    where: { tenantId },
+    include: { createdBy: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export function formatApiKey(apiKey: ExternalApiKey & { createdBy?: User | null }) {
+  return {
+    id: apiKey.id,
+    label: apiKey.label,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    status: getApiKeyStatus(apiKey),
+    expires_at: apiKey.expiresAt,
+    last_used_at: apiKey.lastUsedAt,
+    revoked_at: apiKey.revokedAt,
+    created_by: apiKey.createdBy?.email ?? null,
+    created_at: apiKey.createdAt,
+  };
+}
@@ -3,6 +3,8 @@
  */
 
 import { auth, clerkClient } from '@clerk/nextjs/server';
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
 import { prisma } from './db';
 import type { User } from '.prisma/client';
 
@@ -54,18 +56,56 @@ export async function getUserTenants(userId: string) {
   }));
 }
 
+/**
+ * Cookie holding the id of the tenant the user is working in
+ */
+export const ACTIVE_TENANT_COOKIE = 'korasense_active_tenant';
+
+/**
+ * Tenant id from the active-tenant cookie, unverified
+ */
+export async function getActiveTenantId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(ACTIVE_TENANT_COOKIE)?.value || null;
+}
+
+/**
+ * Make a tenant the active one for the browser receiving this response
+ * Callers check membership first
+ */
+export function setActiveTenantCookie(response: NextResponse, tenantId: string): void {
+  response.cookies.set(ACTIVE_TENANT_COOKIE, tenantId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+  });
+}
+
+/**
+ * Get the tenant the user is working in, with their role
+ * Falls back to their first membership when the cookie is unset or names a
+ * tenant they no longer belong to
+ */
+export async function getActiveTenant(userId: string) {
+  const [tenants, activeTenantId] = await Promise.all([
+    getUserTenants(userId),
+    getActiveTenantId(),
+  ]);
+
+  return tenants.find(t => t.id === activeTenantId) ?? tenants[0] ?? null;
+}
+
 /**
  * Get or create default tenant for user
  */
 export async function getOrCreateDefaultTenant(userId: string) {
   // Check if user has any tenants
-  const existingMembership = await prisma.tenantMember.findFirst({
-    where: { userId },
-    include: { tenant: true },
-  });
+  const activeTenant = await getActiveTenant(userId);
 
-  if (existingMembership) {
-    return existingMembership.tenant;
+  if (activeTenant) {
+    return activeTenant;
   }
 
   // Create a new tenant for the user
@@ -95,22 +135,6 @@ export async function getOrCreateDefaultTenant(userId: string) {
   return tenant;
 }
 
-/**
- * Check if user has access to tenant
- */
-export async function checkTenantAccess(userId: string, tenantId: string) {
-  const membership = await prisma.tenantMember.findUnique({
-    where: {
-      tenantId_userId: {
-        tenantId,
-        userId,
-      },
-    },
-  });
-
-  return membership !== null;
-}
-
 /**
  * Get tenant by slug
  */
@@ -120,18 +144,6 @@ export async function getTenantBySlug(slug: string) {
   });
 }
 
-/**
- * Verify external API key
- */
-export async function verifyExternalApiKey(apiKey: string) {
-  const key = await prisma.externalApiKey.findUnique({
-    where: { key: apiKey },
-    include: { tenant: true },
-  });
-
-  return key;
-}
-
 /**
  * Auth middleware helper
  */
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKeyScope, ExternalApiKey, Role, Tenant, User } from '@prisma/client';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from './db';
+import { getActiveTenantId, getCurrentUser } from './auth';
+import { verifyApiKey } from './api_keys';
+import { authorizeTenant } from './authz';
+
+vi.mock('@clerk/nextjs/server', () => ({ auth: vi.fn() }));
+vi.mock('./db', () => ({
+  prisma: {
+    tenant: { findUnique: vi.fn() },
+    tenantMember: { findMany: vi.fn() },
+  },
+}));
+vi.mock('./auth', () => ({ getCurrentUser: vi.fn(), getActiveTenantId: vi.fn() }));
+vi.mock('./api_keys', () => ({ verifyApiKey: vi.fn() }));
+
+const tenant = (id: string): Tenant => ({ id, slug: id, name: id } as Tenant);
+const acme = tenant('acme');
+const globex = tenant('globex');
+const demo = tenant('demo');
+const tenants = [acme, globex, demo];
+
+const alice = { id: 'user-alice', clerkUserId: 'clerk-alice', email: 'alice@acme.test' } as User;
+
+function apiKeyIn(owner: Tenant, scopes: ApiKeyScope[]) {
+  return { id: 'key-1', tenantId: owner.id, prefix: 'KORASENSE_abcdef', scopes, tenant: owner } as ExternalApiKey & { tenant: Tenant };
+}
+
+function withApiKey(): Request {
+  return new Request('http://localhost/api/test', { headers: { 'x-api-key': 'KORASENSE_secret' } });
+}
+
+function anonymous(): Request {
+  return new Request('http://localhost/api/test');
+}
+
+function signIn(user: User, memberships: Array<{ tenant: Tenant; role: Role }>) {
+  vi.mocked(auth).mockResolvedValue({ userId: user.clerkUserId } as any);
+  vi.mocked(getCurrentUser).mockResolvedValue(user);
+  vi.mocked(prisma.tenantMember.findMany).mockResolvedValue(
+    memberships.map(m => ({ userId: user.id, tenantId: m.tenant.id, role: m.role, tenant: m.tenant })) as any
+  );
+}
+
+beforeEach(() => {
+  vi.mocked(prisma.tenant.findUnique).mockImplementation((async ({ where }: any) =>
+    tenants.find(t => t.id === where.id || t.slug === where.slug) ?? null) as any);
+  vi.mocked(auth).mockResolvedValue({ userId: null } as any);
+  vi.mocked(getCurrentUser).mockResolvedValue(null);
+  vi.mocked(getActiveTenantId).mockResolvedValue(null);
+  vi.mocked(prisma.tenantMember.findMany).mockResolvedValue([]);
+  vi.mocked(verifyApiKey).mockResolvedValue(null);
+  vi.stubEnv('PUBLIC_DEMO_TENANTS', 'demo');
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('authorizeTenant', () => {
+  it('returns 404 for an unknown tenant', async () => {
+    const result = await authorizeTenant(anonymous(), { slug: 'initech' }, 'knowledge:query');
+    expect(result).toEqual({ error: 'Tenant not found', status: 404 });
+  });
+
+  describe('API keys', () => {
+    it('grants a key its scopes in its own tenant', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['QUERY']));
+
+      const result = await authorizeTenant(withApiKey(), { id: 'acme' }, 'knowledge:query');
+
+      expect(result).toMatchObject({ tenant: acme, via: 'api_key', user: null, role: null });
+      expect('apiKey' in result && result.apiKey).toMatchObject({ id: 'key-1', scopes: ['QUERY'] });
+      expect(verifyApiKey).toHaveBeenCalledWith('KORASENSE_secret');
+    });
+
+    it("acts in the key's tenant when none is named", async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['INGEST']));
+
+      const result = await authorizeTenant(withApiKey(), {}, 'documents:ingest');
+
+      expect(result).toMatchObject({ tenant: acme, via: 'api_key' });
+    });
+
+    it('accepts a key sent in the body', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['INGEST']));
+
+      const result = await authorizeTenant(anonymous(), { id: 'acme' }, 'documents:ingest', { apiKey: 'KORASENSE_body' });
+
+      expect(result).toMatchObject({ via: 'api_key' });
+      expect(verifyApiKey).toHaveBeenCalledWith('KORASENSE_body');
+    });
+
+    it('denies a key in another tenant', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['READ_ONLY', 'INGEST', 'QUERY', 'WORKFLOWS']));
+
+      const result = await authorizeTenant(withApiKey(), { id: 'globex' }, 'documents:read');
+
+      expect(result).toEqual({ error: 'API key does not belong to this tenant', status: 403 });
+    });
+
+    it('denies a permission outside the key scopes with 403', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['READ_ONLY']));
+
+      const result = await authorizeTenant(withApiKey(), { id: 'acme' }, 'documents:ingest');
+
+      expect(result).toEqual({
+        error: 'API key scopes (READ_ONLY) do not grant documents:ingest',
+        status: 403,
+      });
+    });
+
+    it('never lets a key delete documents', async () => {
+      vi.mocked(verifyApiKey).mockResolvedValue(apiKeyIn(acme, ['READ_ONLY', 'INGEST', 'QUERY', 'WORKFLOWS']));
+
+      const result = await authorizeTenant(withApiKey(), { id: 'acme' }, 'documents:delete');
+
+      expect(result).toMatchObject({ status: 403 });
+    });
+
+    it('rejects an unknown, expired or revoked key with 401', async () => {
+      const result = await authorizeTenant(withApiKey(), { id: 'acme' }, 'documents:read');
+
+      expect(result).toEqual({ error: 'Invalid, expired or revoked API key', status: 401 });
+    });
+  });
+
+  describe('members', () => {
+    it('grants the permissions of their role', async () => {
+      signIn(alice, [{ tenant: acme, role: 'MEMBER' }]);
+
+      const result = await authorizeTenant(anonymous(), { id: 'acme' }, 'documents:ingest');
+
+      expect(result).toEqual({ tenant: acme, via: 'member', user: alice, role: 'MEMBER', apiKey: null });
+    });
+
+    it('denies a permission their role lacks with 403', async () => {
+      signIn(alice, [{ tenant: acme, role: 'MEMBER' }]);
+
+      const result = await authorizeTenant(anonymous(), { id: 'acme' }, 'members:manage');
+
+      expect(result).toEqual({
+        error: 'The MEMBER role lacks members:manage in this tenant',
+        status: 403,
+        role: 'MEMBER',
+      });
+    });
+
+    it('uses the active tenant when none is named', async () => {
+      signIn(alice, [{ tenant: acme, role: 'MEMBER' }, { tenant: globex, role: 'TENANT_ADMIN' }]);
+      vi.mocked(getActiveTenantId).mockResolvedValue('globex');
+
+      const result = await authorizeTenant(anonymous(), {}, 'members:manage');
+
+      expect(result).toMatchObject({ tenant: globex, via: 'member', role: 'TENANT_ADMIN' });
+    });
+
+    it('denies a tenant they are not a member of', async () => {
+      signIn(alice, [{ tenant: acme, role: 'TENANT_ADMIN' }]);
+
+      const result = await authorizeTenant(anonymous(), { id: 'globex' }, 'documents:read');
+
+      expect(result).toEqual({ error: 'Access denied to tenant', status: 403 });
+    });
+  });
+
+  describe('SUPER_ADMIN', () => {
+    it('holds every permission in a tenant they are not a member of', async () => {
+      signIn(alice, [{ tenant: acme, role: 'SUPER_ADMIN' }]);
+
+      const result = await authorizeTenant(anonymous(), { id: 'globex' }, 'documents:delete');
+
+      expect(result).toEqual({ tenant: globex, via: 'super_admin', user: alice, role: 'SUPER_ADMIN', apiKey: null });
+    });
+
+    it('outranks their membership role in another tenant', async () => {
+      signIn(alice, [{ tenant: acme, role: 'SUPER_ADMIN' }, { tenant: globex, role: 'MEMBER' }]);
+
+      const result = await authorizeTenant(anonymous(), { id: 'globex' }, 'tenants:view_all');
+
+      expect(result).toMatchObject({ tenant: globex, via: 'member', role: 'SUPER_ADMIN' });
+    });
+  });
+
+  describe('public demo tenants', () => {
+    it('lets anonymous callers query an allowlisted tenant', async () => {
+      const result = await authorizeTenant(anonymous(), { slug: 'demo' }, 'knowledge:query');
+
+      expect(result).toEqual({ tenant: demo, via: 'public_demo', user: null, role: null, apiKey: null });
+    });
+
+    it('lets signed-in non-members query an allowlisted tenant', async () => {
+      signIn(alice, [{ tenant: acme, role: 'MEMBER' }]);
+
+      const result = await authorizeTenant(anonymous(), { slug: 'demo' }, 'knowledge:query');
+
+      expect(result).toMatchObject({ tenant: demo, via: 'public_demo', user: alice, role: null });
+    });
+
+    it('grants nothing beyond querying', async () => {
+      const result = await authorizeTenant(anonymous(), { slug: 'demo' }, 'documents:read');
+
+      expect(result).toEqual({ error: 'Unauthorized', status: 401 });
+    });
+
+    it('does not open tenants missing from PUBLIC_DEMO_TENANTS', async () => {
+      vi.stubEnv('PUBLIC_DEMO_TENANTS', 'globex, other');
+
+      const result = await authorizeTenant(anonymous(), { slug: 'demo' }, 'knowledge:query');
+
+      expect(result).toEqual({ error: 'Unauthorized', status: 401 });
+    });
+  });
+
+  describe('anonymous callers', () => {
+    it('are rejected with 401 on a named tenant', async () => {
+      const result = await authorizeTenant(anonymous(), { id: 'acme' }, 'knowledge:query');
+
+      expect(result).toEqual({ error: 'Unauthorized', status: 401 });
+    });
+
+    it('are rejected with 401 without a tenant', async () => {
+      const result = await authorizeTenant(anonymous(), {}, 'knowledge:query');
+
+      expect(result).toEqual({ error: 'Unauthorized', status: 401 });
+      expect(getCurrentUser).not.toHaveBeenCalled();
+    });
+  });
+});
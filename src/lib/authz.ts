@@ -0,0 +1,167 @@
+/**
+ * Tenant Authorization
+ * Decides whether a caller holds a permission (see permissions.ts) in a
+ * tenant, for every API route and protected page:
+ * - x-api-key: the permissions of the key's scopes, in the key's own tenant only
+ * - Signed-in members: the permissions of their Role in the tenant
+ * - SUPER_ADMIN (a SUPER_ADMIN membership in any tenant): every permission, in every tenant
+ * - Tenants on the public demo allowlist (PUBLIC_DEMO_TENANTS): anyone may query
+ */
+
+import type { ExternalApiKey, Role, Tenant, User } from '@prisma/client';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from './db';
+import { getActiveTenantId, getCurrentUser } from './auth';
+import { verifyApiKey } from './api_keys';
+import {
+  PUBLIC_DEMO_PERMISSIONS,
+  getApiKeyPermissions,
+  hasPermission,
+  type Permission,
+} from './permissions';
+
+export interface TenantAccess {
+  tenant: Tenant;
+  via: 'api_key' | 'member' | 'super_admin' | 'public_demo';
+  user: User | null; // Signed-in caller; null for API keys and anonymous demo visitors
+  role: Role | null; // Caller's role in the tenant
+  apiKey: ExternalApiKey | null; // Key the caller authenticated with
+}
+
+export type TenantAccessResult =
+  | TenantAccess
+  | { error: string; status: 401 | 403 | 404; role?: Role }; // role: a member lacking the permission
+
+/**
+ * The tenant a request targets; without id or slug, the caller's own tenant
+ * (the API key's, or the user's active tenant)
+ */
+export interface TenantRef {
+  id?: string | null;
+  slug?: string | null;
+}
+
+/**
+ * Slugs of tenants anyone may query, from PUBLIC_DEMO_TENANTS (comma-separated)
+ */
+export function getPublicDemoTenantSlugs(): string[] {
+  return (process.env.PUBLIC_DEMO_TENANTS || '')
+    .split(',')
+    .map(slug => slug.trim())
+    .filter(Boolean);
+}
+
+export function isPublicDemoTenant(slug: string): boolean {
+  return getPublicDemoTenantSlugs().includes(slug);
+}
+
+/**
+ * Whether a user holds a SUPER_ADMIN membership in any tenant
+ */
+export async function isSuperAdmin(userId: string): Promise<boolean> {
+  const count = await prisma.tenantMember.count({
+    where: { userId, role: 'SUPER_ADMIN' },
+  });
+  return count > 0;
+}
+
+/**
+ * A user's role in a tenant: SUPER_ADMIN anywhere wins, else their membership's
+ * Returns null for non-members
+ */
+export async function getTenantRole(userId: string, tenantId: string): Promise<Role | null> {
+  const memberships = await prisma.tenantMember.findMany({
+    where: { userId },
+    select: { tenantId: true, role: true },
+  });
+
+  if (memberships.some(m => m.role === 'SUPER_ADMIN')) return 'SUPER_ADMIN';
+  return memberships.find(m => m.tenantId === tenantId)?.role ?? null;
+}
+
+/**
+ * Check if a user holds a permission in a tenant
+ */
+export async function checkTenantAccess(
+  userId: string,
+  tenantId: string,
+  permission: Permission = 'documents:read'
+): Promise<boolean> {
+  return hasPermission(await getTenantRole(userId, tenantId), permission);
+}
+
+/**
+ * Authorize a request to act on a tenant
+ * @param options.apiKey API key sent in the body instead of x-api-key
+ * @returns The tenant and how the caller reached it, or the error and status
+ * to respond with
+ */
+export async function authorizeTenant(
+  request: Request,
+  ref: TenantRef,
+  permission: Permission,
+  options: { apiKey?: string } = {}
+): Promise<TenantAccessResult> {
+  const requested = ref.id || ref.slug
+    ? await prisma.tenant.findUnique({ where: ref.id ? { id: ref.id } : { slug: ref.slug! } })
+    : null;
+  if ((ref.id || ref.slug) && !requested) {
+    return { error: 'Tenant not found', status: 404 };
+  }
+
+  const apiKey = options.apiKey || request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyRecord = await verifyApiKey(apiKey);
+    if (!keyRecord) {
+      return { error: 'Invalid, expired or revoked API key', status: 401 };
+    }
+    if (requested && requested.id !== keyRecord.tenantId) {
+      return { error: 'API key does not belong to this tenant', status: 403 };
+    }
+    if (!getApiKeyPermissions(keyRecord.scopes).includes(permission)) {
+      return {
+        error: `API key scopes (${keyRecord.scopes.join(', ') || 'none'}) do not grant ${permission}`,
+        status: 403,
+      };
+    }
+    const { tenant, ...key } = keyRecord;
+    return { tenant, via: 'api_key', user: null, role: null, apiKey: key };
+  }
+
+  const { userId: clerkUserId } = await auth();
+  const user = clerkUserId ? await getCurrentUser() : null;
+
+  if (user) {
+    const memberships = await prisma.tenantMember.findMany({
+      where: { userId: user.id },
+      include: { tenant: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const superAdmin = memberships.some(m => m.role === 'SUPER_ADMIN');
+    const activeTenantId = requested ? null : await getActiveTenantId();
+    const membership = requested
+      ? memberships.find(m => m.tenantId === requested.id)
+      : memberships.find(m => m.tenantId === activeTenantId) ?? memberships[0];
+
+    if (membership) {
+      const role = superAdmin ? 'SUPER_ADMIN' : membership.role;
+      if (!hasPermission(role, permission)) {
+        return { error: `The ${role} role lacks ${permission} in this tenant`, status: 403, role };
+      }
+      return { tenant: membership.tenant, via: 'member', user, role, apiKey: null };
+    }
+
+    if (requested && superAdmin) {
+      return { tenant: requested, via: 'super_admin', user, role: 'SUPER_ADMIN', apiKey: null };
+    }
+  }
+
+  if (requested && isPublicDemoTenant(requested.slug) && PUBLIC_DEMO_PERMISSIONS.includes(permission)) {
+    return { tenant: requested, via: 'public_demo', user, role: null, apiKey: null };
+  }
+
+  if (!user) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+  return { error: 'Access denied to tenant', status: 403 };
+}
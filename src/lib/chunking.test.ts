@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest';
+import type { DocumentCategory } from '@prisma/client';
+import {
+  DEFAULT_MAX_CHUNK_TOKENS,
+  chunkDocument,
+  chunkExtractedDocument,
+  estimateTokens,
+  type Chunk,
+  type ChunkStrategy,
+} from './chunking';
+import type { ExtractedDocument, ExtractedSegment } from './extraction';
+
+// One token per whitespace-separated word keeps the expected sizes exact
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const words = (prefix: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `${prefix}${i}`).join(' ');
+
+const sentences = (prefix: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `${prefix} sentence ${i} has six words.`).join(' ');
+
+const sampleText = [
+  '# Retention',
+  '',
+  sentences('Retention', 12),
+  '',
+  '## Backups',
+  '',
+  sentences('Backup', 20),
+  '',
+  '```',
+  'restore --from s3://bucket/nightly',
+  '',
+  'verify --checksum',
+  '```',
+  '',
+  words('token', 90),
+].join('\n');
+
+function extracted(format: ExtractedDocument['format'], segments: ExtractedSegment[]): ExtractedDocument {
+  return { format, text: segments.map(s => s.text).join('\n\n'), segments };
+}
+
+function expectOffsetsSliceToText(text: string, chunks: Chunk[]) {
+  for (const chunk of chunks) {
+    expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+  }
+}
+
+describe('chunkDocument', () => {
+  const strategies: ChunkStrategy[] = ['PARAGRAPH', 'SECTION', 'SLIDING', 'LINE', 'TABLE', 'PAGE'];
+
+  it.each(strategies)('keeps %s chunks within the token limit', strategy => {
+    const chunks = chunkDocument(sampleText, 'OTHER', { strategy, maxChunkSize: 24, overlap: 4, countTokens: countWords });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countWords(chunk.text)).toBeLessThanOrEqual(24);
+      expect(chunk.chunkStrategy).toBe(strategy);
+    }
+  });
+
+  it.each(strategies.filter(s => s !== 'TABLE'))('points %s offsets at the chunk text', strategy => {
+    const chunks = chunkDocument(sampleText, 'OTHER', { strategy, maxChunkSize: 24, overlap: 4, countTokens: countWords });
+
+    expectOffsetsSliceToText(sampleText, chunks);
+  });
+
+  it('covers the whole text without overlap', () => {
+    const text = sentences('Plain', 30);
+    const chunks = chunkDocument(text, 'OTHER', { strategy: 'SLIDING', maxChunkSize: 20, overlap: 0, countTokens: countWords });
+
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startOffset).toBeGreaterThanOrEqual(chunks[i - 1].endOffset!);
+    }
+    expect(chunks.map(c => c.text).join(' ')).toBe(text);
+  });
+
+  it('repeats at most `overlap` tokens from the end of the previous chunk', () => {
+    const text = sentences('Sliding', 30);
+    const chunks = chunkDocument(text, 'INCIDENT', { maxChunkSize: 20, overlap: 8, countTokens: countWords });
+
+    expect(chunks.every(c => c.chunkStrategy === 'SLIDING')).toBe(true);
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1];
+      const current = chunks[i];
+      expect(current.startOffset).toBeLessThan(previous.endOffset!);
+
+      const repeated = text.slice(current.startOffset, previous.endOffset);
+      expect(previous.text.endsWith(repeated)).toBe(true);
+      expect(countWords(repeated)).toBeGreaterThan(0);
+      expect(countWords(repeated)).toBeLessThanOrEqual(8);
+    }
+  });
+
+  it('caps overlap at half the chunk size', () => {
+    const text = words('w', 200);
+    const chunks = chunkDocument(text, 'OTHER', { maxChunkSize: 20, overlap: 50, countTokens: countWords });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(countWords(text.slice(chunks[i].startOffset, chunks[i - 1].endOffset))).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('keeps sections apart and titles their chunks', () => {
+    const chunks = chunkDocument(sampleText, 'POLICY', { maxChunkSize: 40, overlap: 0, countTokens: countWords });
+
+    expect(chunks.every(c => c.chunkStrategy === 'SECTION')).toBe(true);
+    expect(chunks.find(c => c.text.includes('Retention sentence 0'))?.sectionTitle).toBe('Retention');
+    expect(chunks.find(c => c.text.includes('Backup sentence 0'))?.sectionTitle).toBe('Backups');
+    expect(chunks.some(c => c.text.includes('Retention') && c.text.includes('Backup sentence'))).toBe(false);
+  });
+
+  it('keeps a fenced code block whole when it fits', () => {
+    const chunks = chunkDocument(sampleText, 'OTHER', { maxChunkSize: 40, overlap: 0, countTokens: countWords });
+
+    const code = chunks.filter(c => c.text.includes('restore --from'));
+    expect(code).toHaveLength(1);
+    expect(code[0].text).toContain('verify --checksum');
+  });
+
+  it('cuts a single word longer than the window by characters', () => {
+    const blob = 'A'.repeat(5000);
+    const chunks = chunkDocument(blob, 'OTHER', { maxChunkSize: 64, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map(c => c.text).join('')).toBe(blob);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(64);
+    }
+  });
+
+  it.each([
+    ['NaN', { maxChunkSize: NaN, overlap: NaN }],
+    ['Infinity', { maxChunkSize: Infinity, overlap: Infinity }],
+    ['strings', { maxChunkSize: '100' as unknown as number, overlap: 'x' as unknown as number }],
+  ])('falls back to the default size for non-finite settings (%s)', (_, options) => {
+    const text = words('w', 1000);
+    const chunks = chunkDocument(text, 'OTHER', { ...options, countTokens: countWords });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countWords(chunk.text)).toBeLessThanOrEqual(DEFAULT_MAX_CHUNK_TOKENS);
+    }
+    expect(Math.max(...chunks.map(c => countWords(c.text)))).toBeGreaterThan(DEFAULT_MAX_CHUNK_TOKENS / 2);
+  });
+
+  it('rounds fractional sizes down and enforces a minimum', () => {
+    const text = words('w', 200);
+
+    const fractional = chunkDocument(text, 'OTHER', { maxChunkSize: 20.9, overlap: 0, countTokens: countWords });
+    expect(Math.max(...fractional.map(c => countWords(c.text)))).toBe(20);
+
+    const tiny = chunkDocument(text, 'OTHER', { maxChunkSize: 1, overlap: 0, countTokens: countWords });
+    expect(Math.max(...tiny.map(c => countWords(c.text)))).toBe(16);
+  });
+
+  it.each<[DocumentCategory, ChunkStrategy]>([
+    ['POLICY', 'SECTION'],
+    ['ARCHITECTURE', 'SECTION'],
+    ['INCIDENT', 'SLIDING'],
+    ['CHAT', 'LINE'],
+    ['TABLE', 'TABLE'],
+    ['OTHER', 'PARAGRAPH'],
+  ])('chunks %s documents with the %s strategy', (category, strategy) => {
+    const chunks = chunkDocument(sampleText, category, { maxChunkSize: 40, countTokens: countWords });
+
+    expect(chunks.every(c => c.chunkStrategy === strategy)).toBe(true);
+  });
+});
+
+describe('chunkExtractedDocument', () => {
+  it('never crosses PDF pages and stamps page numbers', () => {
+    const doc = extracted('pdf', [
+      { text: sentences('Page one', 10), pageNumber: 1 },
+      { text: sentences('Page two', 10), pageNumber: 2 },
+      { text: sentences('Page three', 2), pageNumber: 3 },
+    ]);
+
+    const chunks = chunkExtractedDocument(doc, 'OTHER', { maxChunkSize: 25, overlap: 4, countTokens: countWords });
+
+    expect(new Set(chunks.map(c => c.pageNumber))).toEqual(new Set([1, 2, 3]));
+    for (const chunk of chunks) {
+      expect(chunk.text).toContain(`Page ${['one', 'two', 'three'][chunk.pageNumber! - 1]}`);
+      expect(chunk.text).not.toMatch(chunk.pageNumber === 1 ? /Page (two|three)/ : chunk.pageNumber === 2 ? /Page (one|three)/ : /Page (one|two)/);
+      expect(countWords(chunk.text)).toBeLessThanOrEqual(25);
+    }
+    expectOffsetsSliceToText(doc.text, chunks);
+  });
+
+  it('chunks sheets as tables with their header row repeated', () => {
+    const header = 'id | name | owner';
+    const rows = (sheet: string, n: number) =>
+      [header, ...Array.from({ length: n }, (_, i) => `${i} | ${sheet}-${i} | team`)].join('\n');
+    const doc = extracted('xlsx', [
+      { text: rows('servers', 30), sectionTitle: 'Servers', tableHeader: header },
+      { text: rows('queues', 5), sectionTitle: 'Queues', tableHeader: header },
+    ]);
+
+    const chunks = chunkExtractedDocument(doc, 'TABLE', { maxChunkSize: 256, countTokens: countWords });
+
+    const servers = chunks.filter(c => c.sectionTitle === 'Servers');
+    const queues = chunks.filter(c => c.sectionTitle === 'Queues');
+    expect(servers).toHaveLength(2); // 20 rows per table chunk
+    expect(queues).toHaveLength(1);
+    for (const chunk of chunks) {
+      expect(chunk.chunkStrategy).toBe('TABLE');
+      expect(chunk.text.startsWith(`${header}\n`)).toBe(true);
+      expect(chunk.text.split('\n').filter(line => line === header)).toHaveLength(1);
+      // Offsets cover the chunk's own rows, after the repeated header
+      expect(`${header}\n${doc.text.slice(chunk.startOffset, chunk.endOffset)}`).toBe(chunk.text);
+    }
+    expect(servers.every(c => !c.text.includes('queues-'))).toBe(true);
+  });
+
+  it('keeps each slide as one chunk unless it is too long', () => {
+    const doc = extracted('pptx', [
+      { text: 'Roadmap\nShip search v2', pageNumber: 1, sectionTitle: 'Roadmap' },
+      { text: `Risks\n\n${sentences('Risk', 10)}\n\n${sentences('Mitigation', 10)}`, pageNumber: 2, sectionTitle: 'Risks' },
+    ]);
+
+    const chunks = chunkExtractedDocument(doc, 'OTHER', { maxChunkSize: 40, overlap: 0, countTokens: countWords });
+
+    const first = chunks.filter(c => c.pageNumber === 1);
+    const second = chunks.filter(c => c.pageNumber === 2);
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ text: 'Roadmap\nShip search v2', chunkStrategy: 'PAGE', sectionTitle: 'Roadmap' });
+    expect(second.length).toBeGreaterThan(1);
+    expect(second.every(c => c.sectionTitle === 'Risks' && c.chunkStrategy === 'PAGE')).toBe(true);
+    expectOffsetsSliceToText(doc.text, chunks);
+  });
+
+  it('applies an explicit strategy within each segment', () => {
+    const doc = extracted('pdf', [
+      { text: sentences('First', 6), pageNumber: 1 },
+      { text: sentences('Second', 6), pageNumber: 2 },
+    ]);
+
+    const chunks = chunkExtractedDocument(doc, 'OTHER', { strategy: 'LINE', maxChunkSize: 100, countTokens: countWords });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.map(c => [c.chunkStrategy, c.pageNumber])).toEqual([['LINE', 1], ['LINE', 2]]);
+    expectOffsetsSliceToText(doc.text, chunks);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts punctuation, digits and non-Latin text as extra tokens', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('hello world')).toBe(2);
+    expect(estimateTokens('hello, world!')).toBe(4);
+    expect(estimateTokens('123456789')).toBe(3);
+    expect(estimateTokens('日本語')).toBe(3);
+  });
+});
@@ -1,237 +1,451 @@
 /**
  * Chunking Strategies for Documents
  * Handles different approaches to splitting documents into searchable chunks
+ * Sizes are measured in tokens: text is split recursively (headings, paragraphs,
+ * lines, sentences, words) until every chunk fits the embedding model's window
  */
 
+import type { DocumentCategory } from '@prisma/client';
+import { extractDocument, type ExtractedDocument } from './extraction';
+
 export type ChunkStrategy = 'LINE' | 'PARAGRAPH' | 'SECTION' | 'TABLE' | 'SLIDING' | 'PAGE';
-export type DocumentType = 'POLICY' | 'INCIDENT' | 'ARCHITECTURE' | 'CHAT' | 'TABLE' | 'OTHER';
 
 export interface Chunk {
   text: string;
   chunkStrategy: ChunkStrategy;
   pageNumber?: number;
   sectionTitle?: string;
+  startOffset?: number; // Character offsets into the extracted document text
+  endOffset?: number;
+}
+
+export interface ChunkOptions {
+  maxChunkSize?: number; // Tokens per chunk
+  overlap?: number; // Tokens repeated from the end of the previous chunk
+  strategy?: ChunkStrategy; // Overrides the strategy chosen from the document type
+  countTokens?: (text: string) => number;
+}
+
+export const DEFAULT_MAX_CHUNK_TOKENS = 256;
+export const DEFAULT_OVERLAP_TOKENS = 32;
+
+// Rows per table chunk (the token limit still applies)
+const MAX_TABLE_ROWS = 20;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface ChunkSettings {
+  maxTokens: number;
+  overlap: number;
+  countTokens: (text: string) => number;
+}
+
+// Share of a model's window that estimated chunk sizes may fill
+export const ESTIMATE_WINDOW_SHARE = 0.5;
+
+/**
+ * Rough token estimate for WordPiece / SentencePiece models, used when the
+ * embedding provider has no local tokenizer
+ * Long words, numbers and non-Latin scripts count as several tokens, but a
+ * rare word can split into more pieces than estimated ("Kubernetes" is 4
+ * WordPiece tokens, estimated 2), so an estimated size is capped at
+ * ESTIMATE_WINDOW_SHARE of the window
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu)) {
+    const piece = match[0];
+    if (/^\p{N}+$/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/[^\x00-\x7F]/.test(piece)) {
+      tokens += piece.length;
+    } else {
+      tokens += Math.ceil(piece.length / 5);
+    }
+  }
+  return tokens;
 }
 
 /**
- * Main chunking function - selects strategy based on document type
+ * Main chunking function - selects strategy based on document category
  */
 export function chunkDocument(
   text: string,
-  docType: DocumentType,
-  options: {
-    maxChunkSize?: number;
-    overlap?: number;
-  } = {}
+  category: DocumentCategory,
+  options: ChunkOptions = {}
 ): Chunk[] {
-  const { maxChunkSize = 1000, overlap = 100 } = options;
+  const strategy = options.strategy || strategyForCategory(category);
+  return chunkWithStrategy(text, strategy, resolveSettings(options));
+}
 
-  switch (docType) {
+function strategyForCategory(category: DocumentCategory): ChunkStrategy {
+  switch (category) {
     case 'POLICY':
-      return chunkBySection(text, maxChunkSize);
+    case 'ARCHITECTURE':
+      return 'SECTION';
     case 'INCIDENT':
-      return chunkByParagraphWithSliding(text, maxChunkSize, overlap);
+      return 'SLIDING';
     case 'CHAT':
-      return chunkByLine(text);
+      return 'LINE';
     case 'TABLE':
-      return chunkTable(text);
-    case 'ARCHITECTURE':
-      return chunkBySection(text, maxChunkSize);
+      return 'TABLE';
     default:
-      return chunkByParagraph(text, maxChunkSize);
+      return 'PARAGRAPH';
   }
 }
 
+function resolveSettings(options: ChunkOptions): ChunkSettings {
+  // A non-numeric size would never let the recursive split reach its base case
+  const maxChunkSize = Number.isFinite(options.maxChunkSize) ? options.maxChunkSize! : DEFAULT_MAX_CHUNK_TOKENS;
+  const overlap = Number.isFinite(options.overlap) ? options.overlap! : DEFAULT_OVERLAP_TOKENS;
+  const maxTokens = Math.max(Math.floor(maxChunkSize), 16);
+  return {
+    maxTokens,
+    // Overlap must leave room for new content in every chunk
+    overlap: Math.min(Math.max(Math.floor(overlap), 0), Math.floor(maxTokens / 2)),
+    countTokens: options.countTokens || estimateTokens,
+  };
+}
+
 /**
- * Split by lines - good for chat logs
+ * Run one strategy over a text
  */
-function chunkByLine(text: string): Chunk[] {
-  const lines = text.split('\n').filter(line => line.trim().length > 0);
-  return lines.map(line => ({
-    text: line.trim(),
-    chunkStrategy: 'LINE',
-  }));
+function chunkWithStrategy(
+  text: string,
+  strategy: ChunkStrategy,
+  settings: ChunkSettings,
+  tableHeader?: string
+): Chunk[] {
+  const whole = { start: 0, end: text.length };
+
+  switch (strategy) {
+    case 'LINE':
+      return chunkByLine(text, whole, settings);
+    case 'SECTION':
+      return chunkBySection(text, whole, settings);
+    case 'SLIDING':
+      // Sentence-level windows, so overlap follows the narrative closely
+      return toChunks(text, mergeUnits(text, unitsAt(text, whole, SENTENCE_LEVEL, settings), settings), 'SLIDING');
+    case 'TABLE':
+      return chunkTable(text, whole, settings, tableHeader);
+    case 'PAGE':
+      return chunkByPage(text, whole, settings);
+    default:
+      return toChunks(text, mergeUnits(text, unitsAt(text, whole, PARAGRAPH_LEVEL, settings), settings), 'PARAGRAPH');
+  }
 }
 
 /**
- * Split by paragraphs - general purpose
+ * Chunk an extracted document, keeping page, sheet and slide boundaries
+ * - PDF pages are chunked individually and stamped with their page number
+ * - Spreadsheet sheets use the TABLE strategy with the header row repeated
+ * - Presentation slides become one PAGE chunk each (split only if too long)
+ * An explicit options.strategy is applied per segment instead
+ * Offsets point into extracted.text
  */
-function chunkByParagraph(text: string, maxSize: number): Chunk[] {
-  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-  const chunks: Chunk[] = [];
+export function chunkExtractedDocument(
+  extracted: ExtractedDocument,
+  category: DocumentCategory,
+  options: ChunkOptions = {}
+): Chunk[] {
+  const settings = resolveSettings(options);
+
+  // Segments are joined with a blank line in extracted.text
+  let base = 0;
+  const segments = extracted.segments.map(segment => {
+    const offset = base;
+    base += segment.text.length + 2;
+    return { ...segment, offset };
+  });
 
-  let currentChunk = '';
-  for (const para of paragraphs) {
-    if (currentChunk.length + para.length > maxSize && currentChunk.length > 0) {
-      chunks.push({
-        text: currentChunk.trim(),
-        chunkStrategy: 'PARAGRAPH',
-      });
-      currentChunk = '';
+  const strategyFor = (): ChunkStrategy => {
+    if (options.strategy) return options.strategy;
+    switch (extracted.format) {
+      case 'xlsx':
+        return 'TABLE';
+      case 'pptx':
+        return 'PAGE';
+      default:
+        return strategyForCategory(category);
     }
-    currentChunk += para + '\n\n';
+  };
+
+  return segments.flatMap(segment =>
+    chunkWithStrategy(segment.text, strategyFor(), settings, segment.tableHeader).map(chunk => ({
+      ...chunk,
+      pageNumber: segment.pageNumber,
+      sectionTitle: chunk.sectionTitle || segment.sectionTitle,
+      startOffset: (chunk.startOffset ?? 0) + segment.offset,
+      endOffset: (chunk.endOffset ?? segment.text.length) + segment.offset,
+    }))
+  );
+}
+
+/**
+ * One chunk per line - good for chat logs
+ * Lines too long for the model are split further
+ */
+function chunkByLine(text: string, span: Span, settings: ChunkSettings): Chunk[] {
+  const lines = splitAt(text, span, LINE_LEVEL);
+  return toChunks(text, lines.flatMap(line => splitToFit(text, line, SENTENCE_LEVEL, settings)), 'LINE');
+}
+
+/**
+ * Chunk within sections - chunks never cross a heading and carry its title
+ */
+function chunkBySection(text: string, span: Span, settings: ChunkSettings): Chunk[] {
+  return splitAt(text, span, HEADING_LEVEL).flatMap(section => {
+    const firstLine = text.slice(section.start, section.end).split('\n')[0];
+    const title = isHeading(firstLine)
+      ? firstLine.replace(/^#{1,6}\s/, '').replace(/^\d+\.\s+/, '').trim()
+      : '';
+
+    const spans = mergeUnits(text, unitsAt(text, section, PARAGRAPH_LEVEL, settings), settings);
+    return toChunks(text, spans, 'SECTION').map(chunk => ({ ...chunk, sectionTitle: title }));
+  });
+}
+
+/**
+ * Whole page or slide as one chunk, split only when it exceeds the window
+ */
+function chunkByPage(text: string, span: Span, settings: ChunkSettings): Chunk[] {
+  const trimmed = trimSpan(text, span);
+  if (!trimmed) return [];
+
+  if (settings.countTokens(text.slice(trimmed.start, trimmed.end)) <= settings.maxTokens) {
+    return toChunks(text, [trimmed], 'PAGE');
+  }
+  return toChunks(text, mergeUnits(text, unitsAt(text, trimmed, PARAGRAPH_LEVEL, settings), settings), 'PAGE');
+}
+
+/**
+ * Handle table data - groups of rows
+ * When a header row is given it is repeated at the top of every chunk
+ * (offsets cover the chunk's own rows)
+ */
+function chunkTable(text: string, span: Span, settings: ChunkSettings, header?: string): Chunk[] {
+  let rows = splitAt(text, span, LINE_LEVEL);
+  if (header) {
+    rows = rows.filter(row => text.slice(row.start, row.end).trim() !== header.trim());
   }
 
-  if (currentChunk.trim().length > 0) {
+  const prefix = header ? header + '\n' : '';
+  // A header that fills the window on its own still leaves room for one row
+  const rowBudget = Math.max(settings.maxTokens - settings.countTokens(prefix), Math.floor(settings.maxTokens / 2));
+  const chunks: Chunk[] = [];
+
+  let current: Span | null = null;
+  let rowCount = 0;
+
+  const flush = () => {
+    if (!current) return;
     chunks.push({
-      text: currentChunk.trim(),
-      chunkStrategy: 'PARAGRAPH',
+      text: prefix + text.slice(current.start, current.end),
+      chunkStrategy: 'TABLE',
+      startOffset: current.start,
+      endOffset: current.end,
     });
+    current = null;
+    rowCount = 0;
+  };
+
+  for (const row of rows.flatMap(r => splitToFit(text, r, WORD_LEVEL, { ...settings, maxTokens: rowBudget }))) {
+    if (
+      current &&
+      (rowCount >= MAX_TABLE_ROWS ||
+        settings.countTokens(text.slice(current.start, row.end)) > rowBudget)
+    ) {
+      flush();
+    }
+    current = current ? { start: current.start, end: row.end } : row;
+    rowCount++;
   }
+  flush();
 
   return chunks;
 }
 
 /**
- * Split by sections - looks for headers
+ * Extract plain text from different file formats
+ * Use extractDocument() directly when page or sheet structure matters
  */
-function chunkBySection(text: string, maxSize: number): Chunk[] {
-  // Look for section headers (lines starting with #, ##, or numbered sections)
-  const lines = text.split('\n');
-  const chunks: Chunk[] = [];
-  let currentSection = '';
-  let currentTitle = '';
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // Check if this is a header
-    const isHeader = /^#{1,6}\s/.test(line) || /^\d+\.\s+[A-Z]/.test(line);
-    
-    if (isHeader) {
-      // Save previous section
-      if (currentSection.trim().length > 0) {
-        chunks.push({
-          text: currentSection.trim(),
-          chunkStrategy: 'SECTION',
-          sectionTitle: currentTitle,
-        });
-      }
-      
-      // Start new section
-      currentTitle = line.replace(/^#{1,6}\s/, '').replace(/^\d+\.\s+/, '').trim();
-      currentSection = line + '\n';
-    } else {
-      currentSection += line + '\n';
-      
-      // Split if too large
-      if (currentSection.length > maxSize) {
-        chunks.push({
-          text: currentSection.trim(),
-          chunkStrategy: 'SECTION',
-          sectionTitle: currentTitle,
-        });
-        currentSection = '';
+export async function extractText(
+  fileName: string,
+  content: string | Buffer
+): Promise<string> {
+  const extracted = await extractDocument(fileName, content);
+  return extracted.text;
+}
+
+// ---------------------------------------------------------------------------
+// Recursive splitting
+// ---------------------------------------------------------------------------
+
+const HEADING_LEVEL = 0;
+const PARAGRAPH_LEVEL = 1;
+const LINE_LEVEL = 2;
+const SENTENCE_LEVEL = 3;
+const WORD_LEVEL = 4;
+const LEVEL_COUNT = 5;
+
+function isHeading(line: string): boolean {
+  return /^#{1,6}\s/.test(line) || /^\d+\.\s+[A-Z]/.test(line);
+}
+
+/**
+ * Split a span at one structural level
+ * Headings and blank lines inside fenced code blocks are not boundaries,
+ * so code stays whole unless it alone exceeds the window
+ */
+function splitAt(text: string, span: Span, level: number): Span[] {
+  const boundaries: number[] = [];
+  const slice = text.slice(span.start, span.end);
+
+  if (level === HEADING_LEVEL || level === PARAGRAPH_LEVEL) {
+    let inFence = false;
+    let offset = span.start;
+    let previousBlank = false;
+
+    for (const line of slice.split('\n')) {
+      const isFence = /^\s*(```|~~~)/.test(line);
+      if (!inFence) {
+        if (level === HEADING_LEVEL && isHeading(line)) {
+          boundaries.push(offset);
+        } else if (level === PARAGRAPH_LEVEL && previousBlank && line.trim().length > 0) {
+          boundaries.push(offset);
+        } else if (level === PARAGRAPH_LEVEL && isFence) {
+          // A code block always starts its own unit
+          boundaries.push(offset);
+        }
       }
+      if (isFence) inFence = !inFence;
+      previousBlank = line.trim().length === 0;
+      offset += line.length + 1;
+    }
+  } else {
+    const pattern = level === LINE_LEVEL
+      ? /\n/g
+      : level === SENTENCE_LEVEL
+        ? /(?<=[.!?])\s+(?=\S)/g
+        : /\s+(?=\S)/g;
+
+    for (const match of slice.matchAll(pattern)) {
+      boundaries.push(span.start + match.index! + match[0].length);
     }
   }
 
-  // Add final section
-  if (currentSection.trim().length > 0) {
-    chunks.push({
-      text: currentSection.trim(),
-      chunkStrategy: 'SECTION',
-      sectionTitle: currentTitle,
-    });
+  const parts: Span[] = [];
+  let start = span.start;
+  for (const boundary of boundaries) {
+    if (boundary > start) {
+      parts.push({ start, end: boundary });
+      start = boundary;
+    }
   }
+  parts.push({ start, end: span.end });
 
-  return chunks;
+  return parts
+    .map(part => trimSpan(text, part))
+    .filter((part): part is Span => part !== null);
 }
 
 /**
- * Paragraph chunking with sliding window overlap
+ * Split a span into units at a level, splitting oversized units further
  */
-function chunkByParagraphWithSliding(
-  text: string,
-  maxSize: number,
-  overlap: number
-): Chunk[] {
-  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-  const chunks: Chunk[] = [];
+function unitsAt(text: string, span: Span, level: number, settings: ChunkSettings): Span[] {
+  return splitAt(text, span, level).flatMap(part => splitToFit(text, part, level + 1, settings));
+}
+
+/**
+ * Recursively split a span until every piece fits the token limit
+ */
+function splitToFit(text: string, span: Span, level: number, settings: ChunkSettings): Span[] {
+  const tokens = settings.countTokens(text.slice(span.start, span.end));
+  if (tokens <= settings.maxTokens || span.end - span.start <= 1) return [span];
 
-  let currentChunk = '';
-  let previousChunk = '';
-
-  for (const para of paragraphs) {
-    if (currentChunk.length + para.length > maxSize && currentChunk.length > 0) {
-      chunks.push({
-        text: currentChunk.trim(),
-        chunkStrategy: 'SLIDING',
-      });
-      
-      // Add overlap from previous chunk
-      previousChunk = currentChunk;
-      const overlapText = previousChunk.slice(-overlap);
-      currentChunk = overlapText + '\n\n';
+  if (level >= LEVEL_COUNT) {
+    // A single "word" longer than the window (e.g. base64): cut by characters
+    const length = Math.max(1, Math.floor((span.end - span.start) * settings.maxTokens / tokens * 0.9));
+    const pieces: Span[] = [];
+    for (let start = span.start; start < span.end; start += length) {
+      pieces.push({ start, end: Math.min(start + length, span.end) });
     }
-    currentChunk += para + '\n\n';
+    return pieces.flatMap(piece => splitToFit(text, piece, level, settings));
   }
 
-  if (currentChunk.trim().length > 0) {
-    chunks.push({
-      text: currentChunk.trim(),
-      chunkStrategy: 'SLIDING',
-    });
+  const parts = splitAt(text, span, level);
+  if (parts.length <= 1) {
+    return splitToFit(text, span, level + 1, settings);
   }
-
-  return chunks;
+  return parts.flatMap(part => splitToFit(text, part, level + 1, settings));
 }
 
 /**
- * Handle table data - split by rows or logical groups
+ * Greedily merge consecutive units into chunks up to the token limit
+ * Each new chunk starts with up to `overlap` tokens from the end of the
+ * previous one, cut at a sentence (or word) boundary
  */
-function chunkTable(text: string): Chunk[] {
-  // Simple table chunking - split by double newlines or table separators
-  const rows = text.split(/\n(?=\||---)/);
-  const chunks: Chunk[] = [];
-  
-  let currentChunk = '';
-  let rowCount = 0;
-  const maxRows = 20;
-
-  for (const row of rows) {
-    if (rowCount >= maxRows) {
-      chunks.push({
-        text: currentChunk.trim(),
-        chunkStrategy: 'TABLE',
-      });
-      currentChunk = '';
-      rowCount = 0;
+function mergeUnits(text: string, units: Span[], settings: ChunkSettings): Span[] {
+  const { maxTokens, countTokens } = settings;
+  const merged: Span[] = [];
+  let current: Span | null = null;
+
+  for (const unit of units) {
+    if (!current) {
+      current = { ...unit };
+      continue;
     }
-    currentChunk += row + '\n';
-    rowCount++;
-  }
 
-  if (currentChunk.trim().length > 0) {
-    chunks.push({
-      text: currentChunk.trim(),
-      chunkStrategy: 'TABLE',
-    });
+    if (countTokens(text.slice(current.start, unit.end)) <= maxTokens) {
+      current.end = unit.end;
+      continue;
+    }
+
+    merged.push(current);
+
+    const overlapStart = findOverlapStart(text, current, settings);
+    current = overlapStart !== null && countTokens(text.slice(overlapStart, unit.end)) <= maxTokens
+      ? { start: overlapStart, end: unit.end }
+      : { ...unit };
   }
 
-  return chunks;
+  if (current) merged.push(current);
+  return merged;
 }
 
 /**
- * Extract text from different file formats (placeholder for MVP)
+ * Earliest sentence (or word) boundary whose tail fits the overlap budget
  */
-export async function extractText(
-  fileName: string,
-  content: string | Buffer
-): Promise<string> {
-  const ext = fileName.split('.').pop()?.toLowerCase();
-
-  switch (ext) {
-    case 'txt':
-    case 'md':
-      return content.toString();
-    
-    case 'pdf':
-      // For MVP, assume text is already extracted by the Sense client
-      // In production, you'd use a PDF library here
-      return content.toString();
-    
-    default:
-      return content.toString();
+function findOverlapStart(text: string, span: Span, settings: ChunkSettings): number | null {
+  if (settings.overlap <= 0) return null;
+
+  for (const level of [SENTENCE_LEVEL, WORD_LEVEL]) {
+    const parts = splitAt(text, span, level);
+    for (const part of parts.slice(1)) {
+      if (settings.countTokens(text.slice(part.start, span.end)) <= settings.overlap) {
+        return part.start;
+      }
+    }
   }
+
+  return null;
+}
+
+function trimSpan(text: string, span: Span): Span | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+function toChunks(text: string, spans: Span[], chunkStrategy: ChunkStrategy): Chunk[] {
+  return spans.map(span => ({
+    text: text.slice(span.start, span.end),
+    chunkStrategy,
+    startOffset: span.start,
+    endOffset: span.end,
+  }));
 }
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { citationsToJson, formatCitations, resolveCitations } from './citations';
+import type { RetrievedChunk } from './retrieval';
+
+function chunk(n: number, text: string, extra: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return {
+    pointId: `point-${n}`,
+    chunkId: `chunk-${n}`,
+    documentId: `doc-${n}`,
+    title: `Document ${n}`,
+    docType: 'POLICY',
+    text,
+    pageNumber: null,
+    sectionTitle: null,
+    score: 1 / (60 + n),
+    ...extra,
+  };
+}
+
+const sources = [
+  chunk(1, 'Backups run nightly at 02:00. Copies are kept offsite.', { pageNumber: 3, sectionTitle: 'Backups' }),
+  chunk(2, 'Customer records are retained for seven years. Deletion requests are honored within 30 days.'),
+];
+
+describe('resolveCitations', () => {
+  it('turns each valid marker into a citation of its chunk', () => {
+    const answer = 'Backups run nightly [1]. Records are kept for seven years [2].';
+
+    const { answer: cleaned, citations, droppedMarkers } = resolveCitations(answer, sources);
+
+    expect(cleaned).toBe(answer);
+    expect(droppedMarkers).toEqual([]);
+    expect(citations).toHaveLength(2);
+    expect(citations[0]).toMatchObject({
+      marker: 1,
+      chunkId: 'chunk-1',
+      documentId: 'doc-1',
+      title: 'Document 1',
+      pageNumber: 3,
+      sectionTitle: 'Backups',
+      snippet: 'Backups run nightly at 02:00.',
+    });
+    expect(citations[1]).toMatchObject({
+      marker: 2,
+      chunkId: 'chunk-2',
+      snippet: 'Customer records are retained for seven years.',
+    });
+  });
+
+  it('records the answer spans that cite each marker', () => {
+    const answer = 'Backups run nightly [1]. Records are kept for seven years [2].';
+
+    const { citations } = resolveCitations(answer, sources);
+
+    const cited = citations.map(c => c.spans.map(s => answer.slice(s.start, s.end)));
+    expect(cited).toEqual([
+      ['Backups run nightly [1].'],
+      ['Records are kept for seven years [2].'],
+    ]);
+  });
+
+  it('cites the preceding sentence for a marker after the full stop', () => {
+    const answer = 'Records are kept for seven years. [2] Ask legal for exceptions.';
+
+    const { citations } = resolveCitations(answer, sources);
+
+    expect(answer.slice(citations[0].spans[0].start, citations[0].spans[0].end)).toBe('Records are kept for seven years. [2]');
+  });
+
+  it('drops markers past the number of sources', () => {
+    const { answer, citations, droppedMarkers } = resolveCitations('Backups run nightly [1]. Keys rotate monthly [3].', sources);
+
+    expect(answer).toBe('Backups run nightly [1]. Keys rotate monthly.');
+    expect(citations.map(c => c.marker)).toEqual([1]);
+    expect(droppedMarkers).toEqual([3]);
+  });
+
+  it('drops [0] and keeps the valid markers of a group', () => {
+    const { answer, citations, droppedMarkers } = resolveCitations('Both apply [0, 2, 7] here [1][9].', sources);
+
+    expect(answer).toBe('Both apply [2] here [1].');
+    expect(citations.map(c => c.marker)).toEqual([1, 2]);
+    expect(droppedMarkers).toEqual([0, 7, 9]);
+  });
+
+  it('drops every marker when there are no sources', () => {
+    const { answer, citations, droppedMarkers } = resolveCitations('See the runbook [1].', []);
+
+    expect(answer).toBe('See the runbook.');
+    expect(citations).toEqual([]);
+    expect(droppedMarkers).toEqual([1]);
+  });
+
+  it('leaves markdown links and years alone', () => {
+    const answer = 'See [1](https://example.com) and the [2024] review [1].';
+
+    const { answer: cleaned, citations, droppedMarkers } = resolveCitations(answer, sources);
+
+    expect(cleaned).toBe(answer);
+    expect(droppedMarkers).toEqual([]);
+    expect(citations.map(c => c.marker)).toEqual([1]);
+  });
+
+  it('cuts long snippets', () => {
+    const long = chunk(1, 'word '.repeat(200));
+
+    const { citations } = resolveCitations('Long [1].', [long]);
+
+    expect(citations[0].snippet).toHaveLength(300);
+    expect(citations[0].snippet.endsWith('...')).toBe(true);
+  });
+});
+
+describe('citation formats', () => {
+  const { citations } = resolveCitations('Backups run nightly [1].', sources);
+
+  it('formats citations in snake_case for API responses', () => {
+    expect(formatCitations(citations)[0]).toEqual({
+      marker: 1,
+      chunk_id: 'chunk-1',
+      document_id: 'doc-1',
+      title: 'Document 1',
+      page_number: 3,
+      section_title: 'Backups',
+      snippet: 'Backups run nightly at 02:00.',
+      spans: [{ start: 0, end: 24 }],
+    });
+  });
+
+  it('serializes citations to JSON that reads back unchanged', () => {
+    expect(JSON.parse(JSON.stringify(citationsToJson(citations)))).toEqual(citations);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Citations
+ * Maps the [n] markers an answer uses onto the numbered evidence chunks the
+ * model was shown. Markers without a matching source are dropped from the
+ * answer; each valid marker becomes a structured citation with the chunk's
+ * location, a quote from the chunk and the answer spans that cite it
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { RetrievedChunk } from './retrieval';
+
+export interface Citation {
+  marker: number; // The n in [n]
+  chunkId: string;
+  documentId: string;
+  title: string;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  snippet: string; // Sentence(s) of the chunk closest to the citing text
+  spans: Array<{ start: number; end: number }>; // Citing sentences, offsets into the answer
+}
+
+export interface ResolvedCitations {
+  answer: string; // With hallucinated markers removed
+  citations: Citation[];
+  droppedMarkers: number[];
+}
+
+// [1], [2, 3], [1][4] - but not markdown links like [1](url) or years like [2024]
+const MARKER_GROUP = /[ \t]?\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?!\()/g;
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Resolve an answer's markers against its numbered sources
+ * @param sources Evidence in the order shown to the model: sources[0] is [1]
+ */
+export function resolveCitations(answer: string, sources: RetrievedChunk[]): ResolvedCitations {
+  const dropped = new Set<number>();
+
+  // Pass 1: drop markers that point at no source
+  const cleaned = answer.replace(MARKER_GROUP, (match, numbers: string) => {
+    const markers = numbers.split(',').map(n => parseInt(n.trim(), 10));
+    const valid = markers.filter(n => n >= 1 && n <= sources.length);
+    markers.filter(n => !valid.includes(n)).forEach(n => dropped.add(n));
+
+    if (valid.length === markers.length) return match;
+    if (valid.length === 0) return '';
+    return `${/^[ \t]/.test(match) ? match[0] : ''}[${valid.join(', ')}]`;
+  });
+
+  // Pass 2: collect the sentences citing each marker
+  const spansByMarker = new Map<number, Array<{ start: number; end: number }>>();
+  for (const match of cleaned.matchAll(MARKER_GROUP)) {
+    const span = sentenceAround(cleaned, match.index!);
+    for (const n of match[1].split(',').map(n => parseInt(n.trim(), 10))) {
+      const spans = spansByMarker.get(n) || [];
+      if (!spans.some(s => s.start === span.start)) spans.push(span);
+      spansByMarker.set(n, spans);
+    }
+  }
+
+  const citations = Array.from(spansByMarker.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([marker, spans]) => {
+      const chunk = sources[marker - 1];
+      const citingText = spans.map(s => cleaned.slice(s.start, s.end)).join(' ');
+      return {
+        marker,
+        chunkId: chunk.chunkId,
+        documentId: chunk.documentId,
+        title: chunk.title,
+        pageNumber: chunk.pageNumber,
+        sectionTitle: chunk.sectionTitle,
+        snippet: bestSnippet(chunk.text, citingText),
+        spans,
+      };
+    });
+
+  if (dropped.size > 0) {
+    console.log(`  ⚠️ Dropped ${dropped.size} citation marker(s) with no source: ${Array.from(dropped).join(', ')}`);
+  }
+
+  return {
+    answer: cleaned,
+    citations,
+    droppedMarkers: Array.from(dropped).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Format citations for API responses
+ */
+export function formatCitations(citations: Citation[]) {
+  return citations.map(c => ({
+    marker: c.marker,
+    chunk_id: c.chunkId,
+    document_id: c.documentId,
+    title: c.title,
+    page_number: c.pageNumber,
+    section_title: c.sectionTitle,
+    snippet: c.snippet,
+    spans: c.spans,
+  }));
+}
+
+/**
+ * Serialize citations for QaSession.citations
+ */
+export function citationsToJson(citations: Citation[]): Prisma.InputJsonArray {
+  return citations.map(c => ({
+    marker: c.marker,
+    chunkId: c.chunkId,
+    documentId: c.documentId,
+    title: c.title,
+    pageNumber: c.pageNumber,
+    sectionTitle: c.sectionTitle,
+    snippet: c.snippet,
+    spans: c.spans.map(span => ({ start: span.start, end: span.end })),
+  }));
+}
+
+/**
+ * Bounds of the sentence (or list item/line) containing an offset
+ */
+function sentenceAround(text: string, offset: number): { start: number; end: number } {
+  const markerEnd = text.indexOf(']', offset) + 1;
+
+  // A marker placed after the full stop ("... retained. [2]") cites that sentence
+  let start = offset;
+  while (start > 0 && /\s/.test(text[start - 1])) start--;
+  const afterStop = start > 0 && /[.!?]/.test(text[start - 1]);
+  if (afterStop) start--;
+
+  while (start > 0 && !/[.!?\n]/.test(text[start - 1])) start--;
+  while (start < offset && /\s/.test(text[start])) start++;
+
+  let end = markerEnd;
+  if (!afterStop) {
+    while (end < text.length && text[end] !== '\n' && !/[.!?]/.test(text[end])) end++;
+    if (end < text.length && text[end] !== '\n') end++;
+  }
+  return { start, end };
+}
+
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) || []);
+
+/**
+ * The chunk sentence sharing the most words with the citing text
+ */
+function bestSnippet(chunkText: string, citingText: string): string {
+  const sentences = chunkText.match(/[^.!?\n]+[.!?]?/g)?.map(s => s.trim()).filter(Boolean) || [];
+  const citing = tokenize(citingText);
+
+  let best = '';
+  let bestScore = 0;
+  for (const sentence of sentences) {
+    const words = tokenize(sentence);
+    let overlap = 0;
+    words.forEach(word => {
+      if (citing.has(word)) overlap++;
+    });
+    if (overlap > bestScore) {
+      best = sentence;
+      bestScore = overlap;
+    }
+  }
+
+  const snippet = best || chunkText.trim();
+  return snippet.length > MAX_SNIPPET_LENGTH
+    ? snippet.substring(0, MAX_SNIPPET_LENGTH - 3) + '...'
+    : snippet;
+}
@@ -0,0 +1,106 @@
+/**
+ * Document Classification
+ * Two independent dimensions:
+ * - DocumentType: the file kind (DOCUMENT, SPREADSHEET, ...), from the format
+ * - DocumentCategory: what the document is about (POLICY, INCIDENT, ...), from
+ *   a validated hint or, without one, from the content
+ * The category selects the chunking strategy and is the Qdrant docType filter
+ */
+
+import { DocumentCategory, DocumentType } from '@prisma/client';
+import type { ExtractedDocument } from './extraction';
+
+export const DOCUMENT_CATEGORIES = Object.values(DocumentCategory);
+
+/**
+ * Validate a category hint (case-insensitive)
+ * @returns The category, or null if the hint isn't a known category
+ */
+export function parseCategory(hint: string): DocumentCategory | null {
+  const normalized = hint.trim().toUpperCase();
+  return DOCUMENT_CATEGORIES.includes(normalized as DocumentCategory)
+    ? (normalized as DocumentCategory)
+    : null;
+}
+
+/**
+ * File kind of an upload
+ */
+export function getFileKind(fileName: string, extracted: ExtractedDocument): DocumentType {
+  switch (extracted.format) {
+    case 'pdf':
+    case 'docx':
+      return 'DOCUMENT';
+    case 'xlsx':
+      return 'SPREADSHEET';
+    case 'pptx':
+      return 'PRESENTATION';
+  }
+
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  if (['csv', 'tsv'].includes(ext)) return 'SPREADSHEET';
+  if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'].includes(ext)) return 'IMAGE';
+  if (['txt', 'md', 'markdown', 'log', 'json', 'yaml', 'yml', 'html', 'rst'].includes(ext)) return 'TEXT';
+  return 'OTHER';
+}
+
+// Signals per category: filename/heading keywords weigh more than body terms
+const CATEGORY_SIGNALS: Array<{
+  category: DocumentCategory;
+  nameKeywords: RegExp;
+  contentKeywords: RegExp;
+}> = [
+  {
+    category: 'POLICY',
+    nameKeywords: /polic|handbook|guideline|procedure|standard|compliance|code.of.conduct/i,
+    contentKeywords: /\b(policy|policies|must|shall|employees?|compliance|prohibited|approval|required to|responsibilit(y|ies))\b/gi,
+  },
+  {
+    category: 'INCIDENT',
+    nameKeywords: /incident|postmortem|post-mortem|outage|rca|root.cause/i,
+    contentKeywords: /\b(incident|outage|root cause|postmortem|impact|mitigation|timeline|severity|sev[0-4]|resolved|on-?call|INC-\d+)\b/gi,
+  },
+  {
+    category: 'ARCHITECTURE',
+    nameKeywords: /architect|design|adr|rfc|system|diagram/i,
+    contentKeywords: /\b(architecture|service|component|api|database|latency|scalab\w+|deployment|microservices?|queue|cache|diagram)\b/gi,
+  },
+];
+
+// Lines like "[10:42] alice: ..." or "alice: ..." make up a chat log
+const CHAT_LINE = /^\s*(\[?\d{1,2}:\d{2}(:\d{2})?\]?\s*)?[\w .-]{1,32}:\s+\S/;
+
+/**
+ * Guess a document's category from its name and content
+ */
+export function classifyDocument(fileName: string, extracted: ExtractedDocument): DocumentCategory {
+  if (extracted.format === 'xlsx' || /\.(csv|tsv)$/i.test(fileName)) {
+    return 'TABLE';
+  }
+
+  const text = extracted.text.slice(0, 20000);
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+
+  if (lines.length >= 5) {
+    const chatLines = lines.filter(line => CHAT_LINE.test(line)).length;
+    if (chatLines / lines.length > 0.6) return 'CHAT';
+
+    const tableLines = lines.filter(line => /^\s*\|.*\|\s*$/.test(line)).length;
+    if (tableLines / lines.length > 0.6) return 'TABLE';
+  }
+
+  const words = Math.max(text.split(/\s+/).length, 1);
+  let best: { category: DocumentCategory; score: number } = { category: 'OTHER', score: 0 };
+
+  for (const signal of CATEGORY_SIGNALS) {
+    const contentHits = text.match(signal.contentKeywords)?.length || 0;
+    // Hits per 100 words, so long documents don't win on length alone
+    const score = (contentHits / words) * 100 + (signal.nameKeywords.test(fileName) ? 3 : 0);
+    if (score > best.score) {
+      best = { category: signal.category, score };
+    }
+  }
+
+  // Require a minimum density before committing to a category
+  return best.score >= 1 ? best.category : 'OTHER';
+}
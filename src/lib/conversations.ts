@@ -0,0 +1,106 @@
+/**
+ * Conversations
+ * A conversation is a chat thread owning ordered QaSessions (its turns).
+ * Follow-up questions are rewritten into standalone questions for retrieval,
+ * and the latest turns are passed to the answering model as context
+ */
+
+import type { Conversation } from '@prisma/client';
+import { prisma } from './db';
+import type { ConversationTurn } from './gemini';
+
+// Prior turns given to the rewriter and the answering model
+const HISTORY_TURNS = 6;
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Title for a new conversation, from its first question
+ */
+export function titleFromQuestion(question: string): string {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH
+    ? title.substring(0, MAX_TITLE_LENGTH - 3) + '...'
+    : title;
+}
+
+/**
+ * Who a conversation belongs to: a signed-in user, else the API key used
+ * Anonymous callers (public demo visitors) own none, so they get no history
+ */
+export interface ConversationOwner {
+  userId?: string;
+  apiKeyId?: string;
+}
+
+function ownerWhere(owner: ConversationOwner) {
+  return owner.userId
+    ? { userId: owner.userId }
+    : { userId: null, apiKeyId: owner.apiKeyId };
+}
+
+export function canOwnConversation(owner: ConversationOwner): boolean {
+  return Boolean(owner.userId || owner.apiKeyId);
+}
+
+/**
+ * Find a conversation of the owner in the tenant
+ */
+export async function getConversation(
+  tenantId: string,
+  owner: ConversationOwner,
+  conversationId: string
+): Promise<Conversation | null> {
+  if (!canOwnConversation(owner)) return null;
+
+  return prisma.conversation.findFirst({
+    where: { id: conversationId, tenantId, ...ownerWhere(owner) },
+  });
+}
+
+export async function createConversation(
+  tenantId: string,
+  owner: ConversationOwner,
+  firstQuestion: string
+): Promise<Conversation> {
+  return prisma.conversation.create({
+    data: {
+      tenantId,
+      userId: owner.userId,
+      apiKeyId: owner.userId ? undefined : owner.apiKeyId,
+      title: titleFromQuestion(firstQuestion),
+    },
+  });
+}
+
+/**
+ * The latest turns of a conversation, oldest first
+ */
+export async function getConversationHistory(
+  conversationId: string,
+  limit = HISTORY_TURNS
+): Promise<ConversationTurn[]> {
+  const sessions = await prisma.qaSession.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: { question: true, finalAnswer: true },
+  });
+
+  return sessions.reverse().map(session => ({
+    question: session.question,
+    answer: session.finalAnswer,
+  }));
+}
+
+/**
+ * Format a conversation for API responses
+ */
+export function formatConversation(conversation: Conversation & { _count?: { sessions: number } }) {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    turn_count: conversation._count?.sessions,
+    created_at: conversation.createdAt,
+    updated_at: conversation.updatedAt,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Document Lifecycle
+ * Keeps Postgres (Document, DocumentChunk) and Qdrant consistent when
+ * documents are re-categorized, re-indexed or deleted
+ */
+
+import type { Document, DocumentCategory, IngestionJob } from '@prisma/client';
+import { prisma } from './db';
+import { getTenantEmbedding } from './embedding_providers';
+import { chunkExtractedDocument, type ChunkOptions } from './chunking';
+import { extractionToJson, type ExtractedDocument, type ExtractedSegment } from './extraction';
+import { getChunkOptions, queueChunksForEmbedding } from './ingestion';
+
+/**
+ * Get the ingestion job still working on a document, if any
+ */
+export async function getActiveIngestionJob(documentId: string): Promise<IngestionJob | null> {
+  return prisma.ingestionJob.findFirst({
+    where: {
+      documentId,
+      status: { in: ['QUEUED', 'RUNNING'] },
+    },
+  });
+}
+
+/**
+ * Load the stored extraction of a document
+ * Documents ingested before extractions were stored are rebuilt from their chunks
+ */
+async function getDocumentExtraction(document: Document): Promise<ExtractedDocument> {
+  if (document.extraction) {
+    return document.extraction as unknown as ExtractedDocument;
+  }
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { documentId: document.id },
+    orderBy: { chunkIndex: 'asc' },
+  });
+
+  // Group consecutive chunks of the same page so page numbers survive
+  const segments: ExtractedSegment[] = [];
+  for (const chunk of chunks) {
+    const last = segments[segments.length - 1];
+    if (last && last.pageNumber === (chunk.pageNumber ?? undefined)) {
+      last.text += '\n\n' + chunk.text;
+    } else {
+      segments.push({
+        text: chunk.text,
+        pageNumber: chunk.pageNumber ?? undefined,
+      });
+    }
+  }
+
+  return {
+    format: 'text',
+    text: segments.map(s => s.text).join('\n\n'),
+    segments,
+  };
+}
+
+/**
+ * Update document metadata, mirroring the category and tags into Qdrant payloads
+ * The chunking strategy of a re-categorized document changes on its next re-index
+ */
+export async function updateDocument(
+  document: Document,
+  changes: { title?: string; category?: DocumentCategory; tags?: string[] }
+): Promise<Document> {
+  const payload: { docType?: string; tags?: string[] } = {};
+  if (changes.category && changes.category !== document.category) {
+    payload.docType = changes.category;
+  }
+  if (changes.tags && changes.tags.join(',') !== document.tags.join(',')) {
+    payload.tags = changes.tags;
+  }
+
+  if (Object.keys(payload).length > 0) {
+    const { collection } = await getTenantEmbedding(document.tenantId);
+    await collection.setPayload(document.tenantId, [document.id], payload);
+  }
+
+  return prisma.document.update({
+    where: { id: document.id },
+    data: {
+      title: changes.title,
+      category: changes.category,
+      tags: changes.tags,
+    },
+  });
+}
+
+/**
+ * Delete a document's vectors, then the document (chunks and jobs cascade)
+ */
+export async function deleteDocument(document: Document): Promise<void> {
+  // Qdrant first: if it fails the document stays visible and can be retried
+  const { collection } = await getTenantEmbedding(document.tenantId);
+  await collection.deletePoints(document.tenantId, [document.id]);
+
+  await prisma.document.delete({
+    where: { id: document.id },
+  });
+}
+
+/**
+ * Re-chunk a document and queue it for embedding again
+ */
+export async function reindexDocument(
+  document: Document,
+  options: ChunkOptions = {}
+): Promise<IngestionJob> {
+  const extraction = await getDocumentExtraction(document);
+
+  const chunks = chunkExtractedDocument(
+    extraction,
+    document.category,
+    await getChunkOptions(document.tenantId, options)
+  );
+
+  const { collection } = await getTenantEmbedding(document.tenantId);
+  await collection.deletePoints(document.tenantId, [document.id]);
+
+  await prisma.$transaction([
+    prisma.documentChunk.deleteMany({
+      where: { documentId: document.id },
+    }),
+    prisma.document.update({
+      where: { id: document.id },
+      data: {
+        status: 'UPLOADED',
+        extraction: extractionToJson(extraction),
+      },
+    }),
+  ]);
+
+  return queueChunksForEmbedding(document, chunks);
+}
+
+/**
+ * Serialize a document for API responses
+ */
+export function formatDocument(document: Document & { _count?: { chunks: number } }) {
+  return {
+    id: document.id,
+    title: document.title,
+    original_file_name: document.originalFileName,
+    doc_type: document.docType,
+    category: document.category,
+    tags: document.tags,
+    source: document.source,
+    status: document.status,
+    version: document.version,
+    source_path: document.sourcePath,
+    content_hash: document.contentHash,
+    chunk_count: document._count?.chunks,
+    created_at: document.createdAt,
+    updated_at: document.updatedAt,
+  };
+}
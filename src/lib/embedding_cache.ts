@@ -0,0 +1,118 @@
+/**
+ * Persistent Embedding Cache
+ * Stores vectors in Postgres keyed by provider and a hash of the text, so
+ * boilerplate chunks, re-ingested documents and repeated questions are only
+ * embedded once. Entries unused for EMBEDDING_CACHE_TTL_DAYS (default 30) and
+ * the least recently used beyond EMBEDDING_CACHE_MAX_ENTRIES (default 100000)
+ * are pruned by the ingestion worker
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './db';
+
+// lastUsedAt only decides pruning: refresh it at most this often per entry
+const LAST_USED_RESOLUTION_MS = 24 * 60 * 60 * 1000;
+
+function getCacheTtlDays(): number {
+  const days = parseInt(process.env.EMBEDDING_CACHE_TTL_DAYS || '', 10);
+  return days > 0 ? days : 30;
+}
+
+function getCacheMaxEntries(): number {
+  const entries = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '', 10);
+  return entries > 0 ? entries : 100000;
+}
+
+/**
+ * Cache key for a text (SHA-256 of the exact text embedded)
+ */
+export function embeddingCacheKey(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Look up cached vectors for a provider
+ * @returns Map from cache key to vector (misses are absent)
+ */
+export async function getCachedEmbeddings(
+  provider: string,
+  keys: string[]
+): Promise<Map<string, number[]>> {
+  if (keys.length === 0) return new Map();
+
+  const entries = await prisma.embeddingCache.findMany({
+    where: {
+      provider,
+      contentHash: { in: Array.from(new Set(keys)) },
+    },
+    select: { id: true, contentHash: true, vector: true, lastUsedAt: true },
+  });
+
+  const stale = entries
+    .filter(entry => Date.now() - entry.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS)
+    .map(entry => entry.id);
+  if (stale.length > 0) {
+    // Fire and forget: a failed timestamp must not fail the lookup
+    prisma.embeddingCache.updateMany({
+      where: { id: { in: stale } },
+      data: { lastUsedAt: new Date() },
+    }).catch(error => console.warn('Failed to refresh embedding cache entries:', error));
+  }
+
+  return new Map(entries.map(entry => [entry.contentHash, entry.vector]));
+}
+
+/**
+ * Store freshly computed vectors
+ * Failures are logged, not thrown - the cache is an optimization
+ */
+export async function cacheEmbeddings(
+  provider: string,
+  entries: Array<{ key: string; vector: number[] }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    await prisma.embeddingCache.createMany({
+      data: entries.map(entry => ({
+        provider,
+        contentHash: entry.key,
+        vector: entry.vector,
+      })),
+      skipDuplicates: true,
+    });
+  } catch (error) {
+    console.warn('Failed to write embedding cache:', error);
+  }
+}
+
+/**
+ * Delete entries unused for the TTL, then the least recently used ones
+ * beyond the size cap
+ * @returns Number of entries deleted
+ */
+export async function pruneEmbeddingCache(): Promise<number> {
+  const cutoff = new Date(Date.now() - getCacheTtlDays() * 24 * 60 * 60 * 1000);
+  const expired = await prisma.embeddingCache.deleteMany({
+    where: { lastUsedAt: { lt: cutoff } },
+  });
+
+  // First entry past the cap, in most recently used order
+  const [overflow] = await prisma.embeddingCache.findMany({
+    orderBy: [{ lastUsedAt: 'desc' }, { id: 'desc' }],
+    skip: getCacheMaxEntries(),
+    take: 1,
+    select: { lastUsedAt: true },
+  });
+  const evicted = overflow
+    ? await prisma.embeddingCache.deleteMany({
+        where: { lastUsedAt: { lte: overflow.lastUsedAt } },
+      })
+    : { count: 0 };
+
+  const deleted = expired.count + evicted.count;
+  if (deleted > 0) {
+    console.log(`🧹 Embedding cache: ${expired.count} expired, ${evicted.count} evicted`);
+  }
+  return deleted;
+}
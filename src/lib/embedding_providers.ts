@@ -0,0 +1,202 @@
+/**
+ * Embedding Provider Registry
+ * Named embedding providers and the per-tenant binding of provider,
+ * dimension and Qdrant collection. A tenant's vectors always come from the
+ * provider recorded for it; any dimension mismatch throws instead of
+ * writing incompatible vectors into the index
+ */
+
+import { prisma } from './db';
+import { qdrant, DEFAULT_COLLECTION_NAME, type QdrantClient } from './qdrant';
+import { generateGeminiEmbedding, generateGeminiEmbeddings } from './gemini';
+import { cacheEmbeddings, embeddingCacheKey, getCachedEmbeddings } from './embedding_cache';
+
+export type EmbeddingProviderName = 'local-minilm' | 'gemini-text-embedding-004';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  dimension: number;
+  maxTokens: number; // Input window - chunks are sized to fit it
+  description: string;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+  // Exact token counter for sizing chunks; without one chunks are sized
+  // with estimateTokens (chunking.ts) and kept well inside the window
+  getTokenCounter?(): Promise<(text: string) => number>;
+}
+
+const providers: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  'local-minilm': {
+    name: 'local-minilm',
+    dimension: 384,
+    maxTokens: 256, // Trained sequence length of all-MiniLM-L6-v2
+    description: 'all-MiniLM-L6-v2 (local, Transformers.js)',
+    async embed(text) {
+      // Dynamic import to avoid loading the model unless needed
+      const { generateLocalEmbedding } = await import('./embeddings');
+      return generateLocalEmbedding(text);
+    },
+    async embedBatch(texts) {
+      const { generateLocalEmbeddings } = await import('./embeddings');
+      return generateLocalEmbeddings(texts);
+    },
+    async getTokenCounter() {
+      const { getLocalTokenCounter } = await import('./embeddings');
+      return getLocalTokenCounter();
+    },
+  },
+  'gemini-text-embedding-004': {
+    name: 'gemini-text-embedding-004',
+    dimension: 768,
+    maxTokens: 2048,
+    description: 'Gemini text-embedding-004',
+    embed: generateGeminiEmbedding,
+    embedBatch: generateGeminiEmbeddings,
+  },
+};
+
+export interface TenantEmbedding {
+  provider: EmbeddingProvider;
+  collection: QdrantClient;
+}
+
+/**
+ * Look up a provider by name
+ */
+export function getEmbeddingProvider(name: string): EmbeddingProvider {
+  const provider = Object.hasOwn(providers, name) ? providers[name as EmbeddingProviderName] : undefined;
+  if (!provider) {
+    throw new Error(
+      `Unknown embedding provider "${name}". Available: ${Object.keys(providers).join(', ')}`
+    );
+  }
+  return provider;
+}
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Object.values(providers);
+}
+
+/**
+ * Provider for tenants without a recorded one
+ * EMBEDDING_PROVIDER wins; USE_LOCAL_EMBEDDINGS is still honored
+ */
+export function getDefaultEmbeddingProvider(): EmbeddingProvider {
+  if (process.env.EMBEDDING_PROVIDER) {
+    return getEmbeddingProvider(process.env.EMBEDDING_PROVIDER);
+  }
+  return process.env.USE_LOCAL_EMBEDDINGS === 'true'
+    ? providers['local-minilm']
+    : providers['gemini-text-embedding-004'];
+}
+
+/**
+ * Resolve a tenant's embedding provider and Qdrant collection
+ * The first call records the default provider, its dimension and the
+ * default collection, pinning them for every later ingestion and query
+ */
+export async function getTenantEmbedding(tenantId: string): Promise<TenantEmbedding> {
+  let settings = await prisma.tenantSettings.findUnique({
+    where: { tenantId },
+  });
+
+  if (!settings?.embeddingProvider || !settings.embeddingDimension || !settings.collectionName) {
+    const provider = getDefaultEmbeddingProvider();
+    const binding = {
+      embeddingProvider: provider.name,
+      embeddingDimension: provider.dimension,
+      collectionName: DEFAULT_COLLECTION_NAME,
+    };
+
+    settings = await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...binding },
+      update: binding,
+    });
+
+    console.log(`📌 Tenant ${tenantId} pinned to ${provider.name} (${provider.dimension}-dim) in ${DEFAULT_COLLECTION_NAME}`);
+  }
+
+  const provider = getEmbeddingProvider(settings.embeddingProvider!);
+
+  if (provider.dimension !== settings.embeddingDimension) {
+    throw new Error(
+      `Tenant ${tenantId} is recorded with ${settings.embeddingDimension}-dim embeddings, ` +
+      `but provider ${provider.name} produces ${provider.dimension}-dim vectors`
+    );
+  }
+
+  return {
+    provider,
+    collection: qdrant.forCollection(settings.collectionName!),
+  };
+}
+
+/**
+ * Embed text with the tenant's provider, verifying the vector's dimension
+ */
+export async function embedForTenant(
+  tenant: TenantEmbedding,
+  text: string
+): Promise<number[]> {
+  const [vector] = await embedManyForTenant(tenant, [text]);
+  return vector;
+}
+
+/**
+ * Embed many texts with the tenant's provider
+ * Cached vectors are reused; the rest are embedded in one batch (each
+ * distinct text once) and cached
+ * @returns One vector per text, in input order
+ */
+export async function embedManyForTenant(
+  tenant: TenantEmbedding,
+  texts: string[]
+): Promise<number[][]> {
+  const { provider } = tenant;
+  const keys = texts.map(embeddingCacheKey);
+  const cached = await getCachedEmbeddings(provider.name, keys);
+
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    if (!cached.has(key) && !missing.has(key)) {
+      missing.set(key, texts[i]);
+    }
+  });
+
+  if (missing.size > 0) {
+    const pending = Array.from(missing.values());
+    const vectors = pending.length === 1
+      ? [await provider.embed(pending[0])]
+      : await provider.embedBatch(pending);
+    const computed = Array.from(missing.keys()).map((key, i) => ({ key, vector: vectors[i] }));
+
+    for (const { key, vector } of computed) {
+      assertDimension(provider, vector);
+      cached.set(key, vector);
+    }
+
+    await cacheEmbeddings(provider.name, computed);
+  }
+
+  if (texts.length > 1) {
+    console.log(`  ⚡ Embeddings: ${missing.size} of ${texts.length} computed, rest cached`);
+  }
+
+  return keys.map(key => {
+    const vector = cached.get(key)!;
+    assertDimension(provider, vector);
+    return vector;
+  });
+}
+
+/**
+ * Throw if a vector doesn't have the provider's declared dimension
+ */
+export function assertDimension(provider: EmbeddingProvider, vector: number[]): void {
+  if (vector.length !== provider.dimension) {
+    throw new Error(
+      `Embedding provider ${provider.name} returned a ${vector.length}-dim vector, expected ${provider.dimension}`
+    );
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Local Embedding Module
  * Uses Transformers.js for client-side embedding generation
- * Falls back to Gemini if local embedding fails
+ * Registered as the 'local-minilm' provider in embedding_providers.ts
  */
 
 import { pipeline, type PipelineType } from '@xenova/transformers';
@@ -87,6 +87,44 @@ export async function generateLocalEmbedding(
   }
 }
 
+/**
+ * Generate embeddings for multiple texts in one forward pass per batch
+ * @returns One 384-dimensional vector per text, in input order
+ */
+export async function generateLocalEmbeddings(
+  texts: string[],
+  batchSize: number = 16
+): Promise<number[][]> {
+  const pipe = await initializeEmbeddingModel();
+  const embeddings: number[][] = [];
+
+  const maxChars = 2000;
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts
+      .slice(i, i + batchSize)
+      .map(text => text.length > maxChars ? text.substring(0, maxChars) : text);
+
+    // Batched input yields a [batch, 384] tensor
+    const output = await pipe(batch, {
+      pooling: 'mean',
+      normalize: true,
+    });
+
+    embeddings.push(...(output.tolist() as number[][]));
+  }
+
+  return embeddings;
+}
+
+/**
+ * Token counter using the model's own WordPiece tokenizer
+ * Counts include [CLS] and [SEP], which also take up the input window
+ */
+export async function getLocalTokenCounter(): Promise<(text: string) => number> {
+  const pipe = await initializeEmbeddingModel();
+  return (text: string) => pipe.tokenizer.encode(text).length;
+}
+
 /**
  * Get the dimension of embeddings produced by the local model
  */
@@ -0,0 +1,228 @@
+/**
+ * Document Text Extraction
+ * Format-aware text extraction for PDF, Word, Excel and PowerPoint files
+ * Keeps page, sheet and slide boundaries so chunking can preserve them
+ */
+
+import type { Prisma } from '@prisma/client';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+// SheetJS from its own CDN (package.json): the npm release (0.18.5) has
+// unpatched prototype pollution and ReDoS issues and this parses uploads
+import * as XLSX from 'xlsx';
+
+export type ExtractedFormat = 'text' | 'pdf' | 'docx' | 'xlsx' | 'pptx';
+
+export interface ExtractedSegment {
+  text: string;
+  pageNumber?: number; // PDF page or slide number (1-based)
+  sectionTitle?: string; // Sheet name or slide title
+  tableHeader?: string; // Header row repeated in every table chunk
+}
+
+export interface ExtractedDocument {
+  format: ExtractedFormat;
+  text: string;
+  segments: ExtractedSegment[];
+}
+
+/**
+ * Serialize an extraction for Document.extraction
+ * Optional segment fields are only written when set
+ */
+export function extractionToJson(extracted: ExtractedDocument): Prisma.InputJsonObject {
+  return {
+    format: extracted.format,
+    text: extracted.text,
+    segments: extracted.segments.map(segment => ({
+      text: segment.text,
+      ...(segment.pageNumber !== undefined && { pageNumber: segment.pageNumber }),
+      ...(segment.sectionTitle !== undefined && { sectionTitle: segment.sectionTitle }),
+      ...(segment.tableHeader !== undefined && { tableHeader: segment.tableHeader }),
+    })),
+  };
+}
+
+/**
+ * Detect the extraction format from the file extension
+ */
+export function detectFormat(fileName: string): ExtractedFormat {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+
+  switch (ext) {
+    case 'pdf':
+      return 'pdf';
+    case 'docx':
+      return 'docx';
+    case 'xlsx':
+    case 'xlsm':
+    case 'xls':
+      return 'xlsx';
+    case 'pptx':
+      return 'pptx';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Extract text and structure from an uploaded file
+ * String content for binary formats is assumed to be base64 encoded
+ */
+export async function extractDocument(
+  fileName: string,
+  content: string | Buffer
+): Promise<ExtractedDocument> {
+  const format = detectFormat(fileName);
+
+  if (format === 'text') {
+    const text = content.toString();
+    return { format, text, segments: [{ text }] };
+  }
+
+  const buffer = typeof content === 'string'
+    ? Buffer.from(content, 'base64')
+    : content;
+
+  let segments: ExtractedSegment[];
+  switch (format) {
+    case 'pdf':
+      segments = await extractPdf(buffer);
+      break;
+    case 'docx':
+      segments = await extractDocx(buffer);
+      break;
+    case 'xlsx':
+      segments = extractSpreadsheet(buffer);
+      break;
+    case 'pptx':
+      segments = await extractPresentation(buffer);
+      break;
+  }
+
+  segments = segments.filter(s => s.text.trim().length > 0);
+
+  return {
+    format,
+    text: segments.map(s => s.text).join('\n\n'),
+    segments,
+  };
+}
+
+/**
+ * PDF: one segment per page
+ */
+async function extractPdf(buffer: Buffer): Promise<ExtractedSegment[]> {
+  // unpdf bundles a serverless build of pdf.js, so no worker setup is needed
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+
+  return pages.map((pageText, i) => ({
+    text: normalizeWhitespace(pageText),
+    pageNumber: i + 1,
+  }));
+}
+
+/**
+ * Word: convert to HTML first so headings survive as markdown headers
+ * (the SECTION chunking strategy splits on them)
+ */
+async function extractDocx(buffer: Buffer): Promise<ExtractedSegment[]> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+
+  const text = html
+    .replace(/<h([1-6])[^>]*>(.*?)<\/h\1>/gi, (_, level, inner) => `\n\n${'#'.repeat(Number(level))} ${inner}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|li|tr|table|ul|ol)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  return [{ text: normalizeWhitespace(decodeXmlEntities(text)) }];
+}
+
+/**
+ * Excel: one segment per sheet, rows rendered as markdown table rows
+ */
+function extractSpreadsheet(buffer: Buffer): ExtractedSegment[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+
+  return workbook.SheetNames.map(sheetName => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+      blankrows: false,
+      defval: '',
+      raw: false,
+    });
+
+    const renderedRows = rows
+      .filter(row => row.some(cell => String(cell).trim().length > 0))
+      .map(row => `| ${row.map(cell => String(cell).replace(/\|/g, '/').trim()).join(' | ')} |`);
+
+    const [header, ...body] = renderedRows;
+
+    return {
+      text: renderedRows.join('\n'),
+      sectionTitle: sheetName,
+      tableHeader: body.length > 0 ? header : undefined,
+    };
+  });
+}
+
+/**
+ * PowerPoint: one segment per slide, titled by the slide's first paragraph
+ */
+async function extractPresentation(buffer: Buffer): Promise<ExtractedSegment[]> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const slideFiles = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideIndex(a) - slideIndex(b));
+
+  const segments: ExtractedSegment[] = [];
+
+  for (const name of slideFiles) {
+    const xml = await zip.files[name].async('string');
+
+    // Each <a:p> (with or without attributes; not <a:pPr> or an empty <a:p/>)
+    // is a paragraph made of one or more <a:t> text runs
+    const paragraphs = (xml.match(/<a:p(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/a:p>/g) || [])
+      .map(p => (p.match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>/g) || [])
+        .map(run => decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+        .join(''))
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+
+    segments.push({
+      text: paragraphs.join('\n'),
+      pageNumber: slideIndex(name),
+      sectionTitle: paragraphs[0],
+    });
+  }
+
+  return segments;
+}
+
+function slideIndex(path: string): number {
+  return parseInt(path.match(/slide(\d+)\.xml$/)?.[1] || '0', 10);
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
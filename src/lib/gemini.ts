@@ -1,15 +1,16 @@
 /**
  * Google Gemini AI Client
- * Handles embeddings, chat, and multimodal interactions
+ * Handles Gemini embeddings and the prompts of the pipeline agents, which run
+ * on the tenant's model for their role (see llm.ts)
  */
 
-import { GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { DocumentCategory } from '@prisma/client';
+import { DOCUMENT_CATEGORIES, parseCategory } from './classification';
+import type { LlmClient } from './llm';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
-// Toggle between local and remote embeddings
-const USE_LOCAL_EMBEDDINGS = process.env.USE_LOCAL_EMBEDDINGS === 'true';
-
 /**
  * Multimodal file upload interface
  */
@@ -20,15 +21,23 @@ export interface MultimodalFile {
 }
 
 /**
- * Convert file to Gemini Part format
+ * A completed question/answer turn of a conversation
  */
-function fileToGenerativePart(file: MultimodalFile): Part {
-  return {
-    inlineData: {
-      data: Buffer.from(file.data).toString('base64'),
-      mimeType: file.mimeType,
-    },
-  };
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Format prior turns for a prompt, truncating long answers
+ */
+export function formatConversationHistory(history: ConversationTurn[], maxAnswerChars = 600): string {
+  return history.map((turn, i) => {
+    const answer = turn.answer.length > maxAnswerChars
+      ? turn.answer.substring(0, maxAnswerChars) + '...'
+      : turn.answer;
+    return `Turn ${i + 1}\nUser: ${turn.question}\nAssistant: ${answer}`;
+  }).join('\n\n');
 }
 
 /**
@@ -49,7 +58,7 @@ async function retryWithBackoff<T>(
       if (!isRateLimit || isLastRetry) {
         // For quota errors, provide helpful message
         if (isRateLimit) {
-          throw new Error('Gemini API quota exceeded. Please try again in a few seconds or reduce query complexity.');
+          throw new Error('Model API quota exceeded. Please try again in a few seconds or reduce query complexity.');
         }
         throw error;
       }
@@ -64,23 +73,12 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Generate text embeddings
- * Uses local model if USE_LOCAL_EMBEDDINGS=true, otherwise Gemini
+ * Generate a text embedding with Gemini text-embedding-004 (768 dimensions)
+ * Use the embedding provider registry (embedding_providers.ts) to embed
+ * tenant content - it picks the provider pinned for the tenant
  * Truncates text to stay within limits
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  if (USE_LOCAL_EMBEDDINGS) {
-    try {
-      // Dynamic import to avoid loading embeddings module unless needed
-      const { generateLocalEmbedding } = await import('./embeddings');
-      // Use local model (384 dimensions)
-      return await generateLocalEmbedding(text);
-    } catch (error) {
-      console.error('Local embedding failed, falling back to Gemini:', error);
-      // Fall through to Gemini if local fails
-    }
-  }
-  
+export async function generateGeminiEmbedding(text: string): Promise<number[]> {
   // Use Gemini (768 dimensions)
   const model = genAI.getGenerativeModel({ model: 'text-embedding-004' });
   
@@ -96,24 +94,65 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 }
 
 /**
- * Generate embeddings for multiple texts
+ * Generate Gemini embeddings for multiple texts
+ * Uses batchEmbedContents (up to 100 texts per request)
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateGeminiEmbeddings(texts: string[]): Promise<number[][]> {
   const model = genAI.getGenerativeModel({ model: 'text-embedding-004' });
   const embeddings: number[][] = [];
 
-  // Process in batches to avoid rate limits
+  const maxChars = 8000;
   const batchSize = 100;
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
-    const promises = batch.map(text => model.embedContent(text));
-    const results = await Promise.all(promises);
-    embeddings.push(...results.map(r => r.embedding.values));
+    const result = await retryWithBackoff(() => model.batchEmbedContents({
+      requests: batch.map(text => ({
+        content: {
+          role: 'user',
+          parts: [{ text: text.length > maxChars ? text.substring(0, maxChars) + '...' : text }],
+        },
+      })),
+    }));
+    embeddings.push(...result.embeddings.map(e => e.values));
   }
 
   return embeddings;
 }
 
+/**
+ * Query Rewriter: Turn a follow-up question into a standalone search query
+ * e.g. "what about last quarter?" after a question on EU incidents becomes
+ * "EU security incidents last quarter". Returns the question unchanged when
+ * there is no history or the rewrite fails
+ */
+export async function runQueryRewriter(
+  llm: LlmClient,
+  question: string,
+  history: ConversationTurn[]
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const prompt = `Rewrite the follow-up question as a standalone question that can be understood without the conversation. Resolve pronouns and references ("it", "that policy", "last quarter") using the conversation. If it is already standalone, return it unchanged.
+
+Conversation:
+${formatConversationHistory(history, 300)}
+
+Follow-up question: "${question}"
+
+Reply with the standalone question only.`;
+
+  try {
+    const rewritten = await retryWithBackoff(async () => {
+      const text = await llm.generateText(prompt, { temperature: 0, maxOutputTokens: 128 });
+      return text.trim().replace(/^["']|["']$/g, '');
+    });
+    return rewritten || question;
+  } catch (error) {
+    console.warn('Query rewrite failed, using the original question:', error);
+    return question;
+  }
+}
+
 /**
  * Gatekeeper: Check if query is safe and clear (simplified for speed)
  */
@@ -160,60 +199,76 @@ export async function runGatekeeper(
   return { status: 'approved' };
 }
 
+export type SearchStrategy = 'focused' | 'broad' | 'comprehensive';
+
+export interface RetrievalPlan {
+  searchStrategy: SearchStrategy;
+  docTypes: string[]; // Categories to search; empty searches all
+  subQueries: string[]; // One search per part of the question
+}
+
 /**
- * Planner: Decide search strategy and doc types (simplified for speed)
+ * Planner: Split the question into sub-queries and pick the document
+ * categories likely to answer it, before anything is retrieved
+ * Falls back to a single unfiltered search if the call fails
  */
-export async function runPlanner(
-  question: string,
-  evidence: Array<{ text: string; docType: string; title: string; documentId: string }>
-): Promise<{
-  docTypes: string[];
-  subQueries: string[];
-  searchStrategy: string;
-}> {
-  // Simple rule-based planner to avoid API calls
-  const foundDocTypes = [...new Set(evidence.map(e => e.docType))];
-  
-  // If we have evidence, use those doc types
-  const docTypes = foundDocTypes.length > 0 
-    ? foundDocTypes 
-    : ['DOCUMENT', 'TEXT', 'SPREADSHEET', 'OTHER'];
-  
-  // Determine strategy based on evidence count
-  const searchStrategy = evidence.length >= 5 
-    ? 'focused' 
-    : evidence.length > 0 
-      ? 'broad' 
-      : 'comprehensive';
-  
-  return {
-    docTypes,
-    subQueries: [], // Skip sub-queries for speed
-    searchStrategy
+export async function runPlanner(llm: LlmClient, question: string, maxSubQueries = 4): Promise<RetrievalPlan> {
+  const fallback: RetrievalPlan = {
+    searchStrategy: 'focused',
+    docTypes: [],
+    subQueries: [question],
   };
+
+  const prompt = `Plan a knowledge base search for the question below.
+
+Question: "${question}"
+
+1. subQueries: if the question asks about several things, write one short search query per part (at most ${maxSubQueries}); otherwise return just the question.
+2. docTypes: the document categories likely to contain the answer, from: ${DOCUMENT_CATEGORIES.join(', ')}. Return an empty list if unsure.
+3. searchStrategy: "focused" for a single specific fact, "broad" for an explanation or comparison, "comprehensive" for overviews across many documents.
+
+Respond as JSON: { "subQueries": ["..."], "docTypes": ["POLICY"], "searchStrategy": "focused" }`;
+
+  try {
+    const plan = await retryWithBackoff(() => llm.generateJSON(prompt, { temperature: 0.1 }));
+
+    const subQueries = (Array.isArray(plan.subQueries) ? plan.subQueries : [])
+      .filter((q: unknown): q is string => typeof q === 'string' && q.trim().length > 0)
+      .slice(0, maxSubQueries);
+    const docTypes = (Array.isArray(plan.docTypes) ? plan.docTypes : [])
+      .filter((t: unknown): t is string => typeof t === 'string')
+      .map((t: string) => parseCategory(t))
+      .filter((t: DocumentCategory | null): t is DocumentCategory => t !== null);
+    const searchStrategy: SearchStrategy = ['focused', 'broad', 'comprehensive'].includes(plan.searchStrategy)
+      ? plan.searchStrategy
+      : 'focused';
+
+    return {
+      searchStrategy,
+      docTypes: Array.from(new Set(docTypes)),
+      subQueries: subQueries.length > 0 ? subQueries : [question],
+    };
+  } catch (error) {
+    console.warn('Planning failed, searching with the question only:', error);
+    return fallback;
+  }
 }
 
 /**
  * Analyst: Synthesize answer from evidence
  */
 export async function runAnalyst(
+  llm: LlmClient,
   question: string,
-  evidence: Array<{ text: string; docType: string; title: string; documentId: string }>
+  evidence: Array<{ text: string; docType: string; title: string; documentId: string }>,
+  history: ConversationTurn[] = [],
+  revision?: { previousAnswer: string; missingAspects: string[] }
 ): Promise<{
   answer: string;
   keyInsights: string[];
   evidenceReferences: string[];
   confidence: number;
 }> {
-  // Use lighter model to avoid quota issues (2.0-flash-lite uses fewer tokens)
-  const model = genAI.getGenerativeModel({ 
-    model: 'gemini-2.0-flash-lite',
-    generationConfig: {
-      temperature: 0.3,
-      responseMimeType: 'application/json',
-    },
-  });
-
   // Truncate evidence text to avoid quota issues (max 500 chars per chunk)
   const evidenceText = evidence.map((e, i) => {
     const truncatedText = e.text.length > 500 
@@ -222,10 +277,23 @@ export async function runAnalyst(
     return `[${i + 1}] ${e.docType} - ${e.title}\n${truncatedText}`;
   }).join('\n\n---\n\n');
 
-  const prompt = `You are an expert analyst providing clear, actionable answers using company knowledge.
+  const conversation = history.length > 0
+    ? `\nConversation so far:\n${formatConversationHistory(history)}\n`
+    : '';
 
-Question: "${question}"
+  // Re-analysis: improve an earlier answer the auditor found lacking
+  const revisionSection = revision
+    ? `\nA previous answer was judged incomplete. Missing: ${revision.missingAspects.join('; ')}
+Previous answer:
+${revision.previousAnswer}
 
+Write an improved answer: keep what the previous answer got right, fill the gaps using the evidence (which now includes additional sources), and cite evidence by its number.\n`
+    : '';
+
+  const prompt = `You are an expert analyst providing clear, actionable answers using company knowledge.
+${conversation}
+Question: "${question}"
+${revisionSection}
 Evidence:
 ${evidenceText}
 
@@ -245,53 +313,116 @@ Format your response as JSON:
 
 Make the answer professional, actionable, and well-formatted for direct presentation to users.`;
 
-  return await retryWithBackoff(async () => {
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
-    return JSON.parse(response);
-  });
+  return await retryWithBackoff(() => llm.generateJSON(prompt, { temperature: 0.3 }));
 }
 
 /**
- * Auditor: Verify quality and coverage
+ * Gap Planner: Turn the auditor's missing aspects into search queries
+ * Falls back to pairing the question with each aspect if the call fails
  */
-export async function runAuditor(
+export async function runGapQueryPlanner(
+  llm: LlmClient,
   question: string,
-  evidence: Array<{ text: string }>,
-  analysis: any
-): Promise<{
-  qualityScore: number;
-  groundingCheck: boolean;
-  coverageCheck: boolean;
-  missingAspects: string[];
-}> {
-  const model = genAI.getGenerativeModel({ 
-    model: 'gemini-2.5-flash-lite',
-    generationConfig: {
-      temperature: 0.1,
-      responseMimeType: 'application/json',
-    },
-  });
-
-  // Simplified auditor - skip AI call for speed, use heuristics
-  const qualityScore = analysis.confidence || 0.75;
-  const groundingCheck = evidence.length > 0;
-  const coverageCheck = analysis.answer && analysis.answer.length > 50;
-  const missingAspects: string[] = [];
-  
-  if (evidence.length === 0) {
-    missingAspects.push('No supporting evidence found');
-  }
-  if (analysis.confidence < 0.5) {
-    missingAspects.push('Low confidence in answer');
+  answer: string,
+  missingAspects: string[],
+  maxQueries = 3
+): Promise<string[]> {
+  const fallback = missingAspects.slice(0, maxQueries).map(aspect => `${question} ${aspect}`);
+
+  const prompt = `An answer to a question was judged incomplete. Write up to ${maxQueries} short knowledge base search queries that would find the missing information.
+
+Question: "${question}"
+
+Answer so far:
+${answer.substring(0, 1500)}
+
+Missing aspects:
+${missingAspects.map(a => `- ${a}`).join('\n')}
+
+Respond as JSON: { "queries": ["query 1", "query 2"] }`;
+
+  try {
+    const queries = await retryWithBackoff(async () => {
+      const result = await llm.generateJSON(prompt, { temperature: 0.2 });
+      return result.queries as string[];
+    });
+    const valid = (queries || []).filter(q => typeof q === 'string' && q.trim().length > 0);
+    return valid.length > 0 ? valid.slice(0, maxQueries) : fallback;
+  } catch (error) {
+    console.warn('Gap query planning failed, using missing aspects as queries:', error);
+    return fallback;
   }
-  
-  return {
-    qualityScore,
-    groundingCheck,
-    coverageCheck,
-    missingAspects
+}
+
+export interface AuditResult {
+  qualityScore: number;
+  groundingCheck: boolean; // Every claim is backed by the evidence
+  coverageCheck: boolean; // Every part of the question is answered
+  missingAspects: string[]; // What the answer lacks, phrased for searching
+}
+
+/**
+ * Auditor: Check the answer against the question and its evidence
+ * Missing aspects name what this question still needs (unanswered parts,
+ * unsupported claims); the re-analysis loop searches for them
+ * Falls back to the analyst's confidence, with no aspects, if the call fails
+ */
+export async function runAuditor(
+  llm: LlmClient,
+  question: string,
+  evidence: Array<{ text: string; docType: string; title: string }>,
+  analysis: { answer: string; confidence: number }
+): Promise<AuditResult> {
+  const fallback: AuditResult = {
+    qualityScore: typeof analysis.confidence === 'number' ? analysis.confidence : 0.75,
+    groundingCheck: evidence.length > 0,
+    coverageCheck: Boolean(analysis.answer && analysis.answer.length > 50),
+    missingAspects: [],
   };
+
+  const evidenceText = evidence.map((e, i) => {
+    const truncatedText = e.text.length > 500
+      ? e.text.substring(0, 500) + '...'
+      : e.text;
+    return `[${i + 1}] ${e.docType} - ${e.title}\n${truncatedText}`;
+  }).join('\n\n---\n\n');
+
+  const prompt = `Audit an answer written from company documents.
+
+Question: "${question}"
+
+Evidence:
+${evidenceText || '(none)'}
+
+Answer:
+${analysis.answer}
+
+1. coverageCheck: does the answer address every part of the question?
+2. groundingCheck: is every claim supported by the evidence it cites?
+3. missingAspects: the specific information this question needs that the answer lacks or does not support, each as a short phrase that could be searched for (e.g. "rollback steps for the payments service"). Return an empty list if nothing is missing.
+4. qualityScore: 0 to 1, how well the answer would serve the person asking.
+
+Respond as JSON: { "qualityScore": 0.8, "groundingCheck": true, "coverageCheck": false, "missingAspects": ["..."] }`;
+
+  try {
+    const audit = await retryWithBackoff(() => llm.generateJSON(prompt, { temperature: 0.1 }));
+
+    const qualityScore = Number(audit.qualityScore);
+    const missingAspects = (Array.isArray(audit.missingAspects) ? audit.missingAspects : [])
+      .filter((a: unknown): a is string => typeof a === 'string' && a.trim().length > 0)
+      .map((a: string) => a.trim())
+      .slice(0, 5);
+
+    return {
+      qualityScore: Number.isFinite(qualityScore) ? Math.min(Math.max(qualityScore, 0), 1) : fallback.qualityScore,
+      groundingCheck: typeof audit.groundingCheck === 'boolean' ? audit.groundingCheck : fallback.groundingCheck,
+      coverageCheck: typeof audit.coverageCheck === 'boolean' ? audit.coverageCheck : fallback.coverageCheck,
+      missingAspects,
+    };
+  } catch (error) {
+    console.warn('Audit failed, using the analyst confidence:', error);
+    return fallback;
+  }
 }
 
 /**
@@ -312,6 +443,7 @@ export async function runFinalWriter(
  * Risk Assessment: Generate structured risk register
  */
 export async function runRiskAssessment(
+  llm: LlmClient,
   domain: string,
   objective: string,
   timeHorizonMonths: number,
@@ -326,14 +458,6 @@ export async function runRiskAssessment(
   }>;
   overallLevel: 'LOW' | 'MEDIUM' | 'HIGH';
 }> {
-  const model = genAI.getGenerativeModel({ 
-    model: 'gemini-2.5-flash-lite',
-    generationConfig: {
-      temperature: 0.3,
-      responseMimeType: 'application/json',
-    },
-  });
-
   const evidenceText = evidence.map((e, i) => 
     `[${i + 1}] ${e.docType}\n${e.text}`
   ).join('\n\n---\n\n');
@@ -369,9 +493,7 @@ Respond with JSON:
   "overallLevel": "MEDIUM"
 }`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response.text();
-  return JSON.parse(response);
+  return await llm.generateJSON(prompt, { temperature: 0.3 });
 }
 
 /**
@@ -379,6 +501,7 @@ Respond with JSON:
  * Supports: images (PNG, JPEG, WEBP, HEIC, HEIF), videos (MP4, MPEG, MOV, AVI, FLV, MPG, WEBM, WMV, 3GPP)
  */
 export async function runMultimodalQuery(
+  llm: LlmClient,
   question: string,
   files: MultimodalFile[],
   evidence?: Array<{ text: string; docType: string; title: string; documentId: string }>
@@ -387,17 +510,6 @@ export async function runMultimodalQuery(
   mediaAnalysis: string[];
   confidence: number;
 }> {
-  const model = genAI.getGenerativeModel({ 
-    model: 'gemini-2.0-flash',
-    generationConfig: {
-      temperature: 0.3,
-      responseMimeType: 'application/json',
-    },
-  });
-
-  // Convert files to Gemini parts
-  const fileParts = files.map(fileToGenerativePart);
-  
   // Build context from evidence if available
   const evidenceContext = evidence && evidence.length > 0
     ? `\n\nRelevant company knowledge:\n${evidence.map((e, i) => 
@@ -413,7 +525,7 @@ Instructions:
 1. Analyze the provided media files carefully
 2. Extract relevant information, text, objects, actions, or patterns
 3. Provide a clear, detailed answer to the question
-4. Reference specific elements you see in the media${evidenceContext ? '\n5. Cross-reference with provided company knowledge when relevant' : ''}
+4. Reference specific elements you see in the media${evidenceContext ? '\n5. Cross-reference with the company knowledge below when relevant, citing it by its number, e.g. [1]' : ''}${evidenceContext}
 
 Respond with JSON:
 {
@@ -422,33 +534,29 @@ Respond with JSON:
   "confidence": 0.85
 }`;
 
-  return await retryWithBackoff(async () => {
-    const result = await model.generateContent([prompt, ...fileParts]);
-    const response = result.response.text();
-    return JSON.parse(response);
-  });
+  return await retryWithBackoff(() => llm.generateJSON(prompt, { temperature: 0.3, files }));
 }
 
 /**
  * Analyze document/file content (PDFs, text files, spreadsheets, etc.)
+ * Retrieved evidence is numbered like the pipeline's, so [n] markers in the
+ * answer cite it; the file itself is referenced by name, never by number
  */
 export async function runDocumentAnalysis(
+  llm: LlmClient,
   question: string,
-  file: MultimodalFile
+  file: MultimodalFile,
+  evidence?: Array<{ text: string; docType: string; title: string; documentId: string }>
 ): Promise<{
   answer: string;
   extractedInfo: string[];
   confidence: number;
 }> {
-  const model = genAI.getGenerativeModel({ 
-    model: 'gemini-2.0-flash',
-    generationConfig: {
-      temperature: 0.3,
-      responseMimeType: 'application/json',
-    },
-  });
-
-  const filePart = fileToGenerativePart(file);
+  const evidenceContext = evidence && evidence.length > 0
+    ? `\n\nRelevant company knowledge:\n${evidence.map((e, i) =>
+        `[${i + 1}] ${e.docType} - ${e.title}\n${e.text}`
+      ).join('\n\n---\n\n')}`
+    : '';
 
   const prompt = `You are an AI assistant analyzing a document file.
 
@@ -458,7 +566,7 @@ Instructions:
 1. Read and understand the document content
 2. Extract key information relevant to the question
 3. Provide a structured, clear answer
-4. Include specific references from the document
+4. Include specific references from the document by section or page, without [n] brackets${evidenceContext ? '\n5. Cross-reference with the company knowledge below when relevant, citing it by its number, e.g. [1]' : ''}${evidenceContext}
 
 Respond with JSON:
 {
@@ -467,9 +575,5 @@ Respond with JSON:
   "confidence": 0.85
 }`;
 
-  return await retryWithBackoff(async () => {
-    const result = await model.generateContent([prompt, filePart]);
-    const response = result.response.text();
-    return JSON.parse(response);
-  });
+  return await retryWithBackoff(() => llm.generateJSON(prompt, { temperature: 0.3, files: [file] }));
 }
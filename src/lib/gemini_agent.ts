@@ -1,32 +1,39 @@
 /**
- * Gemini Function Calling Agent
- * Uses native Gemini function calling for optimized agent orchestration
- * Reduces API calls from 5-6 to 1-2 while maintaining quality
+ * Function Calling Agent
+ * The `standard` query mode uses native function calling on the tenant's
+ * agent model for optimized agent orchestration, reducing API calls from 5-6
+ * to 1-2 while maintaining quality; `deep` and `web` answer in a single
+ * reasoning call
+ * Run through the orchestrator, which persists the session
  */
 
-import { GoogleGenerativeAI, SchemaType, FunctionDeclaration } from '@google/generative-ai';
-import { generateEmbedding } from './gemini';
-import { qdrant } from './qdrant';
-import { prisma } from './db';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { retrieveChunks, documentsFromChunks, type RetrievalFilter, type RetrievedChunk } from './retrieval';
+import { resolveCitations } from './citations';
+import { formatConversationHistory } from './gemini';
+import type { LlmMessage, LlmTool } from './llm';
+import type {
+  AgentTraceStep,
+  ModeRequest,
+  ModeResult,
+  RetrievalStats,
+} from './types/agent';
 
 /**
- * Tool function declarations for Gemini - Full 6-step pipeline
+ * Tool function declarations - Full 6-step pipeline
  */
-const tools: FunctionDeclaration[] = [
+const tools: LlmTool[] = [
   {
     name: 'retrieve_knowledge',
     description: 'STEP 1: Retrieves relevant knowledge chunks from the vector database. Use this FIRST to gather evidence before any analysis.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The search query to find relevant documents and information',
         },
         limit: {
-          type: SchemaType.NUMBER,
+          type: 'number',
           description: 'Maximum number of relevant chunks to retrieve (default: 5, max: 8)',
         },
       },
@@ -37,10 +44,10 @@ const tools: FunctionDeclaration[] = [
     name: 'gatekeeper_check',
     description: 'STEP 2: Validates if the query is safe, clear, and answerable. Checks for inappropriate content, ambiguity, or missing context.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The user query to validate for safety and clarity',
         },
       },
@@ -51,14 +58,14 @@ const tools: FunctionDeclaration[] = [
     name: 'create_search_plan',
     description: 'STEP 3: Creates a strategic plan for how to search and analyze the evidence. Identifies key document types, search strategies, and sub-queries.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The user query to plan for',
         },
         evidence_summary: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'Brief summary of retrieved evidence types and topics',
         },
       },
@@ -69,14 +76,14 @@ const tools: FunctionDeclaration[] = [
     name: 'analyze_evidence',
     description: 'STEP 4: Analyzes the retrieved evidence to synthesize a comprehensive answer. Extracts key insights and references.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The original user query',
         },
         evidence_summary: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'Summary of available evidence to analyze',
         },
       },
@@ -87,18 +94,18 @@ const tools: FunctionDeclaration[] = [
     name: 'audit_answer',
     description: 'STEP 5: Audits the answer for quality, accuracy, and completeness. Checks grounding in evidence and identifies gaps.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The original query',
         },
         answer: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The answer to audit',
         },
         evidence_count: {
-          type: SchemaType.NUMBER,
+          type: 'number',
           description: 'Number of evidence pieces used',
         },
       },
@@ -109,18 +116,18 @@ const tools: FunctionDeclaration[] = [
     name: 'write_final_answer',
     description: 'STEP 6: Writes the final, polished answer with proper markdown formatting, citations, and professional tone.',
     parameters: {
-      type: SchemaType.OBJECT,
+      type: 'object',
       properties: {
         query: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The original query',
         },
         analysis: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'The analysis and key insights from previous steps',
         },
         audit_feedback: {
-          type: SchemaType.STRING,
+          type: 'string',
           description: 'Quality feedback from the audit step',
         },
       },
@@ -138,26 +145,37 @@ interface RetrieveKnowledgeArgs {
   limit?: number;
 }
 
-async function retrieveKnowledge(args: RetrieveKnowledgeArgs, tenantId: string): Promise<string> {
+/**
+ * @param sources Every chunk shown to the model so far, in citation order -
+ * chunks keep their [n] across repeated retrievals
+ */
+async function retrieveKnowledge(
+  args: RetrieveKnowledgeArgs,
+  tenantId: string,
+  sources: RetrievedChunk[],
+  filter: RetrievalFilter,
+  stats: RetrievalStats
+): Promise<string> {
   const { query, limit = 5 } = args;
   const startTime = Date.now();
+  const cappedLimit = Math.min(limit, 8); // Cap at 8 for speed
   
   console.log(`🔍 Tool: retrieve_knowledge("${query.substring(0, 60)}...", limit: ${limit})`);
   
   try {
-    // OPTIMIZATION 1: Generate embedding (uses local model or Gemini - already optimized)
-    const embeddingStart = Date.now();
-    const embedding = await generateEmbedding(query);
-    console.log(`  ⚡ Embedding: ${Date.now() - embeddingStart}ms`);
-    
-    // OPTIMIZATION 2: Parallel vector search + limit results
+    // Hybrid search: vector + keyword, fused by reciprocal rank
     const searchStart = Date.now();
-    const searchResults = await qdrant.search(embedding, tenantId, { 
-      limit: Math.min(limit, 8), // Cap at 8 for speed
+    const retrieved = await retrieveChunks({
+      query,
+      tenantId,
+      limit: cappedLimit,
+      filter,
     });
-    console.log(`  ⚡ Qdrant search: ${Date.now() - searchStart}ms`);
+    stats.retrievalK += cappedLimit;
+    stats.retrievalLatencyMs += Date.now() - searchStart;
+    console.log(`  ⚡ Hybrid search: ${Date.now() - searchStart}ms`);
     
-    if (searchResults.length === 0) {
+    if (retrieved.length === 0) {
       return JSON.stringify({
         success: false,
         message: 'No relevant knowledge found for this query.',
@@ -165,36 +183,23 @@ async function retrieveKnowledge(args: RetrieveKnowledgeArgs, tenantId: string):
       });
     }
     
-    // OPTIMIZATION 3: Single optimized DB query with only needed fields
-    const dbStart = Date.now();
-    const chunkIds = searchResults.map(r => r.id);
-    const chunks = await prisma.documentChunk.findMany({
-      where: {
-        qdrantPointId: { in: chunkIds },
-      },
-      select: {
-        text: true,
-        qdrantPointId: true,
-        document: {
-          select: {
-            id: true,
-            title: true,
-            docType: true,
-          },
-        },
-      },
+    // Fast mapping with pre-truncated text
+    const evidence = retrieved.map(chunk => {
+      let index = sources.findIndex(source => source.chunkId === chunk.chunkId);
+      if (index < 0) {
+        sources.push(chunk);
+        index = sources.length - 1;
+      }
+      return {
+        index: index + 1, // Cite as [index]
+        text: chunk.text.length > 400 ? chunk.text.substring(0, 400) + '...' : chunk.text, // Reduced from 500
+        docType: chunk.docType,
+        title: chunk.title,
+        documentId: chunk.documentId,
+        score: chunk.score,
+        rerankScore: chunk.rerankScore,
+      };
     });
-    console.log(`  ⚡ DB query: ${Date.now() - dbStart}ms`);
-    
-    // OPTIMIZATION 4: Fast mapping with pre-truncated text
-    const evidence = chunks.map((chunk: any, i: number) => ({
-      index: i + 1,
-      text: chunk.text.length > 400 ? chunk.text.substring(0, 400) + '...' : chunk.text, // Reduced from 500
-      docType: chunk.document.docType,
-      title: chunk.document.title,
-      documentId: chunk.document.id,
-      score: searchResults[i].score,
-    }));
     
     const uniqueDocs = new Set(evidence.map((e: any) => e.documentId)).size;
     const totalTime = Date.now() - startTime;
@@ -205,7 +210,7 @@ async function retrieveKnowledge(args: RetrieveKnowledgeArgs, tenantId: string):
       success: true,
       message: `Retrieved ${evidence.length} chunks from ${uniqueDocs} documents in ${totalTime}ms`,
       chunks: evidence,
-      avgScore: (searchResults.reduce((sum, r) => sum + r.score, 0) / searchResults.length).toFixed(3),
+      avgScore: (retrieved.reduce((sum, r) => sum + r.score, 0) / retrieved.length).toFixed(4),
       performanceMs: totalTime,
     });
   } catch (error: any) {
@@ -371,11 +376,13 @@ async function executeTool(
   toolName: string, 
   args: any, 
   tenantId: string,
-  retrievedEvidence?: any[]
+  sources: RetrievedChunk[],
+  filter: RetrievalFilter,
+  stats: RetrievalStats
 ): Promise<string> {
   switch (toolName) {
     case 'retrieve_knowledge':
-      return await retrieveKnowledge(args, tenantId);
+      return await retrieveKnowledge(args, tenantId, sources, filter, stats);
     case 'gatekeeper_check':
       return await gatekeeperCheck(args);
     case 'create_search_plan':
@@ -395,46 +402,18 @@ async function executeTool(
 }
 
 /**
- * Agent trace step
- */
-export interface AgentTraceStep {
-  step: string;
-  summary: string;
-  durationMs: number;
-  documentsUsed: Array<{
-    id: string;
-    title: string;
-  }>;
-  status?: string;
-  details?: string;
-}
-
-/**
- * Main Gemini Function Calling Agent
+ * Main Function Calling Agent
  */
-export async function runGeminiAgent(
-  question: string,
-  tenantId: string,
-  userId?: string
-): Promise<{
-  answer: string;
-  trace: AgentTraceStep[];
-  totalLatencyMs: number;
-  qualityScore: number;
-}> {
-  const startTime = Date.now();
+export async function runGeminiAgent(request: ModeRequest): Promise<ModeResult> {
+  const { question, tenantId, handlers, history, filter, models } = request;
+  const stats: RetrievalStats = { retrievalK: 0, retrievalUsed: 0, retrievalLatencyMs: 0 };
   const trace: AgentTraceStep[] = [];
+  const record = (step: AgentTraceStep) => {
+    trace.push(step);
+    handlers.onStep?.(step);
+  };
   
-  console.log(`🤖 Gemini Agent: "${question.substring(0, 60)}${question.length > 60 ? '...' : ''}"`);
-  
-  // Create model with function calling enabled
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-2.0-flash-exp', // Use experimental for better function calling
-    tools: [{ functionDeclarations: tools }],
-    generationConfig: {
-      temperature: 0.2,
-    },
-  });
+  console.log(`🤖 Agent (${models.agent.model.id}): "${question.substring(0, 60)}${question.length > 60 ? '...' : ''}"`);
   
   // System instruction with 6-step workflow
   const systemInstruction = `You are an expert AI assistant with a systematic 6-step workflow for answering questions from company knowledge.
@@ -467,33 +446,36 @@ export async function runGeminiAgent(
 
 **Answer Guidelines:**
 - Use markdown formatting (## headings, **bold**, bullet lists)
-- Always cite evidence: [1], [2], [3]
+- Always cite evidence by the chunk's \`index\`: [1], [2], [3] - never cite an index you were not given
 - Be professional, clear, and actionable
 - Include confidence level
 - If no evidence found, state honestly
 
 **Critical:** Follow ALL 6 steps in order. Each step builds on the previous one.`;
   
-  // Start conversation
-  const chat = model.startChat({
-    history: [
-      {
-        role: 'user',
-        parts: [{ text: systemInstruction }],
-      },
-      {
-        role: 'model',
-        parts: [{ text: 'Understood. I will use the available tools strategically to provide accurate, well-cited answers from the company knowledge base.' }],
-      },
-    ],
+  const messages: LlmMessage[] = [
+    { role: 'system', content: systemInstruction },
+    // Earlier turns, so follow-ups can refer back to them
+    ...history.flatMap((turn): LlmMessage[] => [
+      { role: 'user', content: turn.question },
+      { role: 'assistant', content: turn.answer },
+    ]),
+    { role: 'user', content: question },
+  ];
+  const generate = () => models.agent.generate({
+    messages,
+    tools,
+    temperature: 0.2,
+    onToken: handlers.onToken,
   });
   
   // Send user question
-  let response = await chat.sendMessage(question);
+  let response = await generate();
   let iterationCount = 0;
   const maxIterations = 10; // Prevent infinite loops
   const documentsUsed = new Set<string>();
   let lastRetrievedChunks: any[] = [];
+  const sources: RetrievedChunk[] = [];
   
   // Function calling loop
   while (iterationCount < maxIterations) {
@@ -501,23 +483,23 @@ export async function runGeminiAgent(
     const iterStartTime = Date.now();
     
     // Check if model wants to call functions
-    const functionCalls = response.response.functionCalls();
+    const functionCalls = response.toolCalls;
     
-    if (!functionCalls || functionCalls.length === 0) {
+    if (functionCalls.length === 0) {
       // Model provided final answer
-      const finalAnswer = response.response.text();
+      const { answer: finalAnswer, citations, droppedMarkers } = resolveCitations(response.text, sources);
       const iterLatency = Date.now() - iterStartTime;
       
-      trace.push({
+      record({
         step: 'FINAL_ANSWER',
         summary: 'Generated final response',
         durationMs: iterLatency,
         documentsUsed: Array.from(documentsUsed).map(docId => {
-          const chunk = lastRetrievedChunks.find(c => c.documentId === docId);
+          const chunk = sources.find(c => c.documentId === docId);
           return { id: docId, title: chunk?.title || 'Unknown' };
         }),
         status: 'success',
-        details: `Answer length: ${finalAnswer.length} chars`,
+        details: `Answer length: ${finalAnswer.length} chars\nCitations: ${citations.length}${droppedMarkers.length > 0 ? ` (dropped unknown ${droppedMarkers.map(n => `[${n}]`).join(', ')})` : ''}`,
       });
       
       // Parse quality score from answer if present
@@ -530,19 +512,22 @@ export async function runGeminiAgent(
       
       return {
         answer: finalAnswer,
+        citations,
         trace,
-        totalLatencyMs: Date.now() - startTime,
         qualityScore,
+        retrieval: { ...stats, retrievalUsed: sources.length },
       };
     }
     
-    // Execute function calls (Gemini can request multiple)
+    messages.push({ role: 'assistant', content: response.text, toolCalls: functionCalls });
+
+    // Execute function calls (the model can request multiple)
     const functionResponses = await Promise.all(
-      functionCalls.map(async (fc) => {
+      functionCalls.map(async (fc): Promise<LlmMessage> => {
         const funcStartTime = Date.now();
         
         try {
-          const result = await executeTool(fc.name, fc.args, tenantId, lastRetrievedChunks);
+          const result = await executeTool(fc.name, fc.args, tenantId, sources, filter, stats);
           const funcLatency = Date.now() - funcStartTime;
           
           // Parse result to extract document info
@@ -560,28 +545,22 @@ export async function runGeminiAgent(
           }
           
           // Add to trace
-          trace.push({
+          record({
             step: fc.name.toUpperCase(),
             summary: parsedResult.message || `Executed ${fc.name}`,
             durationMs: funcLatency,
             documentsUsed: fc.name === 'retrieve_knowledge' 
-              ? Array.from(documentsUsed).map(docId => {
-                  const chunk = lastRetrievedChunks.find(c => c.documentId === docId);
-                  return { id: docId, title: chunk?.title || 'Unknown' };
-                })
+              ? documentsFromChunks(lastRetrievedChunks)
               : [],
             status: parsedResult.success ? 'success' : 'warning',
             details: JSON.stringify(fc.args, null, 2),
           });
           
-          return {
-            name: fc.name,
-            response: { result },
-          };
+          return { role: 'tool', toolCallId: fc.id, name: fc.name, content: result };
         } catch (error: any) {
           console.error(`Tool execution error (${fc.name}):`, error);
           
-          trace.push({
+          record({
             step: fc.name.toUpperCase(),
             summary: `Failed to execute ${fc.name}`,
             durationMs: Date.now() - funcStartTime,
@@ -591,22 +570,18 @@ export async function runGeminiAgent(
           });
           
           return {
+            role: 'tool',
+            toolCallId: fc.id,
             name: fc.name,
-            response: { 
-              error: error.message,
-              result: JSON.stringify({ success: false, error: error.message }),
-            },
+            content: JSON.stringify({ success: false, error: error.message }),
           };
         }
       })
     );
     
     // Send function results back to model
-    response = await chat.sendMessage(
-      functionResponses.map(fr => ({
-        functionResponse: fr,
-      }))
-    );
+    messages.push(...functionResponses);
+    response = await generate();
   }
   
   // Max iterations reached
@@ -614,22 +589,22 @@ export async function runGeminiAgent(
 }
 
 /**
- * Enhanced agent with web search capabilities
+ * Enhanced agent for the deep and web modes
+ * Web results are searched in web mode, or in deep mode when requested
  */
 export async function runGeminiAgentWithWeb(
-  question: string,
-  tenantId: string,
-  userId?: string,
-  useWebSearch = false,
-  mode: 'standard' | 'deep' | 'web' = 'standard'
-): Promise<{
-  answer: string;
-  trace: any[];
-  qualityScore: number;
-  totalLatencyMs: number;
-}> {
+  request: ModeRequest,
+  mode: 'deep' | 'web'
+): Promise<ModeResult> {
+  const { question, tenantId, handlers, history, filter, models } = request;
+  const llm = mode === 'deep' ? models.deep_reasoner : models.reasoner;
+  const useWebSearch = mode === 'web' || request.useWebSearch;
   const startTime = Date.now();
-  const trace: any[] = [];
+  const trace: AgentTraceStep[] = [];
+  const record = (step: AgentTraceStep) => {
+    trace.push(step);
+    handlers.onStep?.(step);
+  };
   
   console.log(`\n🚀 Enhanced Agent Pipeline - Mode: ${mode}, Web Search: ${useWebSearch}`);
   
@@ -639,12 +614,12 @@ export async function runGeminiAgentWithWeb(
     if (useWebSearch) {
       const webStartTime = Date.now();
       const { searchWeb } = await import('./web_search');
-      const webResults = await searchWeb(question);
+      const webResults = await searchWeb(models.web_search, question);
       const webLatency = Date.now() - webStartTime;
       
       webContext = webResults.results.map(r => `**${r.title}**\n${r.snippet}`).join('\n\n');
       
-      trace.push({
+      record({
         step: 'WEB_SEARCH',
         summary: `Found ${webResults.totalResults} web results`,
         durationMs: webLatency,
@@ -656,58 +631,36 @@ export async function runGeminiAgentWithWeb(
     
     // Step 2: Get local knowledge
     const retrievalStartTime = Date.now();
-    const embedding = await import('./gemini').then(m => m.generateEmbedding(question));
-    const searchResults = await import('./qdrant').then(m => 
-      m.qdrant.search(embedding, tenantId, { limit: mode === 'deep' ? 8 : 5 })
-    );
+    const retrievalK = mode === 'deep' ? 8 : 5;
+    const retrieved = await retrieveChunks({
+      query: question,
+      tenantId,
+      limit: retrievalK,
+      filter,
+    });
+    const retrievalLatencyMs = Date.now() - retrievalStartTime;
     
     let localContext = '';
     const documentsUsed = new Set<string>();
     
-    if (searchResults.length > 0) {
-      const chunkIds = searchResults.map(r => r.id);
-      const chunks = await prisma.documentChunk.findMany({
-        where: { qdrantPointId: { in: chunkIds } },
-        select: {
-          text: true,
-          document: {
-            select: {
-              id: true,
-              title: true,
-              docType: true,
-            },
-          },
-        },
-      });
-      
-      localContext = chunks.map((chunk: any, i: number) => {
-        documentsUsed.add(chunk.document.id);
-        return `**${chunk.document.title}** (${chunk.document.docType})\n${chunk.text.substring(0, 400)}...`;
+    if (retrieved.length > 0) {
+      localContext = retrieved.map((chunk, i) => {
+        documentsUsed.add(chunk.documentId);
+        return `[${i + 1}] **${chunk.title}** (${chunk.docType})\n${chunk.text.substring(0, 400)}...`;
       }).join('\n\n');
       
-      trace.push({
+      record({
         step: 'RETRIEVER',
-        summary: `Retrieved ${chunks.length} relevant chunks from ${documentsUsed.size} documents`,
-        durationMs: Date.now() - retrievalStartTime,
-        documentsUsed: Array.from(documentsUsed).map(id => {
-          const chunk = chunks.find((c: any) => c.document.id === id);
-          return { id, title: chunk?.document?.title || 'Unknown' };
-        }),
+        summary: `Retrieved ${retrieved.length} relevant chunks from ${documentsUsed.size} documents`,
+        durationMs: retrievalLatencyMs,
+        documentsUsed: documentsFromChunks(retrieved),
         status: 'success',
-        details: `Found ${chunks.length} chunks`,
+        details: `Found ${retrieved.length} chunks`,
       });
     }
     
     // Step 3: Generate comprehensive answer
     const reasoningStartTime = Date.now();
-    const model = genAI.getGenerativeModel({ 
-      model: mode === 'deep' ? 'gemini-1.5-pro' : 'gemini-1.5-flash',
-      generationConfig: {
-        temperature: mode === 'deep' ? 0.7 : 0.5,
-        maxOutputTokens: mode === 'deep' ? 2048 : 1024,
-      }
-    });
-
     const localSection = localContext 
       ? `\n\n**📚 INTERNAL KNOWLEDGE:**\n${localContext}\n\n`
       : '\n\n📚 No relevant internal documents found.\n\n';
@@ -725,32 +678,39 @@ export async function runGeminiAgentWithWeb(
 - Clear distinction between facts and inferences`
       : `Provide a clear, concise answer based on the available evidence.`;
 
-    const prompt = `${modeInstructions}
+    const conversationSection = history.length > 0
+      ? `\n**CONVERSATION SO FAR:**\n${formatConversationHistory(history)}\n`
+      : '';
 
+    const prompt = `${modeInstructions}
+${conversationSection}
 **QUESTION:**
 ${question}
 ${localSection}${webSection}
 **INSTRUCTIONS:**
 1. Synthesize information from all available sources
-2. Cite sources clearly (🌐 for web, 📚 for internal docs)
+2. Cite internal documents by their number, e.g. [1], [2]; mark web information with 🌐
 3. Be transparent about confidence level and any gaps
 4. Use markdown formatting for readability
 5. If information is insufficient, clearly state what's missing
 
 Provide your response:`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const answer = response.text();
+    const text = await llm.generateText(prompt, {
+      temperature: mode === 'deep' ? 0.7 : 0.5,
+      maxOutputTokens: mode === 'deep' ? 2048 : 1024,
+      onToken: handlers.onToken,
+    });
+    const { answer, citations } = resolveCitations(text, retrieved);
     const reasoningLatency = Date.now() - reasoningStartTime;
     
-    trace.push({
+    record({
       step: mode === 'deep' ? 'DEEP_REASONER' : 'ANALYST',
       summary: `Generated ${mode} mode response`,
       durationMs: reasoningLatency,
       documentsUsed: [],
       status: 'success',
-      details: `Model: ${mode === 'deep' ? 'gemini-1.5-pro' : 'gemini-1.5-flash'}`,
+      details: `Model: ${llm.model.id}`,
     });
     
     // Calculate quality score
@@ -770,9 +730,14 @@ Provide your response:`;
     
     return {
       answer,
+      citations,
       trace,
       qualityScore: Math.min(qualityScore, 1.0),
-      totalLatencyMs: totalLatency,
+      retrieval: {
+        retrievalK,
+        retrievalUsed: retrieved.length,
+        retrievalLatencyMs,
+      },
     };
   } catch (error: any) {
     console.error('Enhanced agent error:', error);
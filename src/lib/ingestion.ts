@@ -0,0 +1,497 @@
+/**
+ * Ingestion Job Queue
+ * Extraction and chunking happen up front; embedding runs as a persisted,
+ * resumable job so large files never block (or time out) the upload request
+ */
+
+import { createHash } from 'crypto';
+import type { Document, DocumentCategory, DocumentChunk, DocumentSource, IngestionJob } from '@prisma/client';
+import { prisma } from './db';
+import type { QdrantPoint } from './qdrant';
+import { embedManyForTenant, getTenantEmbedding } from './embedding_providers';
+import {
+  chunkExtractedDocument,
+  DEFAULT_MAX_CHUNK_TOKENS,
+  DEFAULT_OVERLAP_TOKENS,
+  ESTIMATE_WINDOW_SHARE,
+  type Chunk,
+  type ChunkOptions,
+} from './chunking';
+import { extractDocument, extractionToJson, type ExtractedFormat } from './extraction';
+import { classifyDocument, getFileKind } from './classification';
+
+// Chunks embedded and upserted per batch; progress is persisted after each one
+const EMBED_BATCH_SIZE = 16;
+
+// A RUNNING job whose lease has expired is assumed to belong to a dead worker
+const LEASE_MS = 2 * 60 * 1000;
+
+export interface EnqueueIngestionOptions {
+  tenantId: string;
+  fileName: string;
+  content: string | Buffer;
+  category?: DocumentCategory; // Validated hint; classified from the content when absent
+  tags?: string[]; // Normalized tags (see parseTags); replace the existing ones when given
+  source?: DocumentSource;
+  sourcePath?: string; // Stable identity for re-sent files (e.g. the FileSense path)
+}
+
+export type EnqueueIngestionResult = {
+  document: Document;
+  job: IngestionJob | null; // null when the content was unchanged
+  unchanged: boolean;
+  format?: ExtractedFormat;
+};
+
+/**
+ * SHA-256 of the raw uploaded content
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Extract, chunk and persist a document, then queue it for embedding
+ * - Same source path (or, without one, same content) and same hash: no-op,
+ *   unless that version never finished embedding - then it is ingested again
+ * - Same source path with new content: new version replacing the old chunks
+ * Returns a 409 error while a worker is still embedding the document
+ */
+export async function enqueueIngestion(
+  options: EnqueueIngestionOptions
+): Promise<EnqueueIngestionResult | { error: string; status: 409 }> {
+  const { tenantId, fileName, content, source = 'SENSE', sourcePath } = options;
+
+  const contentHash = hashContent(content);
+
+  const existing = sourcePath
+    ? await prisma.document.findUnique({
+        where: { tenantId_sourcePath: { tenantId, sourcePath } },
+      })
+    : await prisma.document.findFirst({
+        where: { tenantId, contentHash },
+      });
+
+  // Same content again: a retry of a version that did not finish embedding
+  const retry = existing?.contentHash === contentHash;
+  if (existing && retry && existing.status === 'EMBEDDED') {
+    console.log(`⏭️  Skipping unchanged document ${existing.id} (${fileName})`);
+    return { document: existing, job: null, unchanged: true };
+  }
+
+  if (existing && !(await supersedeIngestionJobs(existing.id))) {
+    return { error: 'Document is still being ingested, try again when the job finishes', status: 409 };
+  }
+
+  // Extract text (keeps page, sheet and slide boundaries)
+  const extracted = await extractDocument(fileName, content);
+
+  // A category set on an earlier version (e.g. by a user) survives re-sends
+  const category = options.category
+    || (existing && existing.category !== 'OTHER' ? existing.category : classifyDocument(fileName, extracted));
+
+  const chunks = chunkExtractedDocument(extracted, category, await getChunkOptions(tenantId));
+
+  const documentData = {
+    title: fileName.replace(/\.[^/.]+$/, ''), // Remove extension
+    originalFileName: fileName,
+    docType: getFileKind(fileName, extracted),
+    category,
+    // Tags set on an earlier version survive re-sends without tags
+    tags: options.tags ?? existing?.tags ?? [],
+    contentHash,
+    status: 'UPLOADED' as const,
+    // Kept so the document can be re-chunked later without the original file
+    extraction: extractionToJson(extracted),
+  };
+
+  let document: Document;
+  if (existing) {
+    // New version (or retry): drop the previous vectors and chunks first
+    const { collection } = await getTenantEmbedding(tenantId);
+    await collection.deletePoints(tenantId, [existing.id]);
+
+    const [, updated] = await prisma.$transaction([
+      prisma.documentChunk.deleteMany({
+        where: { documentId: existing.id },
+      }),
+      prisma.document.update({
+        where: { id: existing.id },
+        data: retry
+          ? documentData
+          : {
+              ...documentData,
+              version: existing.version + 1,
+              versions: {
+                create: {
+                  version: existing.version + 1,
+                  contentHash,
+                  originalFileName: fileName,
+                  chunkCount: chunks.length,
+                },
+              },
+            },
+      }),
+    ]);
+    document = updated;
+
+    console.log(retry
+      ? `🔁 Document ${document.id} version ${document.version} ingested again`
+      : `🔁 Document ${document.id} updated to version ${document.version}`);
+  } else {
+    document = await prisma.document.create({
+      data: {
+        ...documentData,
+        tenantId,
+        source,
+        sourcePath,
+        versions: {
+          create: {
+            version: 1,
+            contentHash,
+            originalFileName: fileName,
+            chunkCount: chunks.length,
+          },
+        },
+      },
+    });
+  }
+
+  const job = await queueChunksForEmbedding(document, chunks);
+
+  return { document, job, unchanged: false, format: extracted.format };
+}
+
+/**
+ * Fail a document's unfinished jobs before its chunks are replaced
+ * Queued jobs and jobs of dead workers (expired lease) are marked FAILED in
+ * one update, so no worker can claim them afterwards. Returns false when a
+ * live worker still holds a job: its in-flight batch could write stale
+ * points back after the delete
+ */
+async function supersedeIngestionJobs(documentId: string): Promise<boolean> {
+  const now = new Date();
+
+  await prisma.ingestionJob.updateMany({
+    where: {
+      documentId,
+      OR: [
+        { status: 'QUEUED' },
+        { status: 'RUNNING', lockedUntil: { lt: now } },
+      ],
+    },
+    data: { status: 'FAILED', lastError: 'Superseded by a newer version', lockedUntil: null },
+  });
+
+  const live = await prisma.ingestionJob.count({
+    where: { documentId, status: 'RUNNING' },
+  });
+  return live === 0;
+}
+
+/**
+ * Chunking options that fit the tenant's embedding model
+ * Tokens are counted with the provider's tokenizer when it has one; requested
+ * sizes larger than the model's input window are capped to it (to part of it
+ * when tokens are only estimated)
+ */
+export async function getChunkOptions(
+  tenantId: string,
+  overrides: ChunkOptions = {}
+): Promise<ChunkOptions> {
+  const { provider } = await getTenantEmbedding(tenantId);
+  const countTokens = overrides.countTokens
+    ?? (provider.getTokenCounter ? await provider.getTokenCounter() : undefined);
+  const window = countTokens
+    ? provider.maxTokens
+    : Math.floor(provider.maxTokens * ESTIMATE_WINDOW_SHARE);
+
+  return {
+    ...overrides,
+    maxChunkSize: Math.min(overrides.maxChunkSize ?? DEFAULT_MAX_CHUNK_TOKENS, window),
+    overlap: overrides.overlap ?? DEFAULT_OVERLAP_TOKENS,
+    countTokens,
+  };
+}
+
+/**
+ * Persist chunk rows for a document and create its embedding job
+ */
+export async function queueChunksForEmbedding(
+  document: Pick<Document, 'id' | 'tenantId'>,
+  chunks: Chunk[]
+): Promise<IngestionJob> {
+  // Chunk rows are written before embedding so a crashed worker can pick up
+  // exactly where it stopped (rows with embeddedAt = null)
+  await prisma.documentChunk.createMany({
+    data: chunks.map((chunk, i) => ({
+      documentId: document.id,
+      tenantId: document.tenantId,
+      chunkIndex: i,
+      text: chunk.text,
+      chunkStrategy: chunk.chunkStrategy,
+      pageNumber: chunk.pageNumber,
+      sectionTitle: chunk.sectionTitle,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      qdrantPointId: crypto.randomUUID(),
+    })),
+  });
+
+  const [, job] = await prisma.$transaction([
+    prisma.document.update({
+      where: { id: document.id },
+      data: { status: 'PARSED' },
+    }),
+    prisma.ingestionJob.create({
+      data: {
+        tenantId: document.tenantId,
+        documentId: document.id,
+        totalChunks: chunks.length,
+      },
+    }),
+  ]);
+
+  return job;
+}
+
+/**
+ * Build the Qdrant point for an embedded chunk
+ * The chunk's qdrantPointId is reused so re-upserts overwrite the same point
+ */
+export function chunkToPoint(
+  chunk: DocumentChunk,
+  document: Pick<Document, 'category' | 'tags'>,
+  vector: number[]
+): QdrantPoint {
+  return {
+    id: chunk.qdrantPointId,
+    vector,
+    payload: {
+      tenantId: chunk.tenantId,
+      documentId: chunk.documentId,
+      chunkIndex: chunk.chunkIndex,
+      docType: document.category, // Retrieval filters on the category
+      tags: document.tags,
+      chunkStrategy: chunk.chunkStrategy,
+      pageNumber: chunk.pageNumber ?? undefined,
+      sectionTitle: chunk.sectionTitle ?? undefined,
+      text: chunk.text,
+    },
+  };
+}
+
+/**
+ * Claim a job so only one worker processes it at a time
+ * Returns null if the job is finished, leased by another worker, or its
+ * tenant is being moved to another collection (scripts/migrate-embeddings.ts):
+ * the job waits and, once claimed, embeds into the collection pinned then
+ */
+async function claimJob(jobId: string): Promise<IngestionJob | null> {
+  const now = new Date();
+
+  const { count } = await prisma.ingestionJob.updateMany({
+    where: {
+      id: jobId,
+      attempts: { lt: prisma.ingestionJob.fields.maxAttempts },
+      OR: [
+        { status: 'QUEUED' },
+        { status: 'RUNNING', lockedUntil: { lt: now } },
+      ],
+      tenant: { embeddingMigrations: { none: { status: 'RUNNING' } } },
+    },
+    data: {
+      status: 'RUNNING',
+      lockedUntil: new Date(now.getTime() + LEASE_MS),
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (count === 0) return null;
+
+  const job = await prisma.ingestionJob.findUniqueOrThrow({ where: { id: jobId } });
+  if (job.startedAt) return job;
+
+  return prisma.ingestionJob.update({
+    where: { id: jobId },
+    data: { startedAt: now },
+  });
+}
+
+/**
+ * Embed all pending chunks of a job's document and upsert them to Qdrant
+ */
+export async function processIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  const job = await claimJob(jobId);
+  if (!job) {
+    return prisma.ingestionJob.findUnique({ where: { id: jobId } });
+  }
+
+  console.log(`📥 Ingestion job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    const document = await prisma.document.findUniqueOrThrow({
+      where: { id: job.documentId },
+    });
+
+    // Ensure the tenant's collection exists with the provider's dimension
+    // (throws on mismatch rather than mixing vector sizes)
+    const tenantEmbedding = await getTenantEmbedding(document.tenantId);
+    const { collection } = tenantEmbedding;
+    await collection.ensureCollection(tenantEmbedding.provider.dimension);
+
+    while (true) {
+      const pending = await prisma.documentChunk.findMany({
+        where: { documentId: document.id, embeddedAt: null },
+        orderBy: { chunkIndex: 'asc' },
+        take: EMBED_BATCH_SIZE,
+      });
+
+      if (pending.length === 0) break;
+
+      // One batched call per batch; identical texts come from the cache
+      const embeddings = await embedManyForTenant(tenantEmbedding, pending.map(c => c.text));
+      const points: QdrantPoint[] = pending.map((chunk, i) =>
+        chunkToPoint(chunk, document, embeddings[i])
+      );
+
+      // Renew the lease before writing: a job superseded while embedding
+      // must not upsert points (or mark chunks) of a replaced version
+      const { count: stillRunning } = await prisma.ingestionJob.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: { lockedUntil: new Date(Date.now() + LEASE_MS) },
+      });
+      if (stillRunning === 0) {
+        console.log(`⏹️  Ingestion job ${job.id} superseded, stopping`);
+        return prisma.ingestionJob.findUnique({ where: { id: job.id } });
+      }
+
+      // Point ids are fixed per chunk, so re-upserting after a crash is idempotent
+      await collection.upsertPoints(points);
+
+      await prisma.documentChunk.updateMany({
+        where: { id: { in: pending.map(c => c.id) } },
+        data: { embeddedAt: new Date() },
+      });
+
+      const processedChunks = await prisma.documentChunk.count({
+        where: { documentId: document.id, embeddedAt: { not: null } },
+      });
+
+      // Report progress
+      await prisma.ingestionJob.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: { processedChunks },
+      });
+    }
+
+    const [, completedJob] = await prisma.$transaction([
+      prisma.document.update({
+        where: { id: document.id },
+        data: { status: 'EMBEDDED' },
+      }),
+      prisma.ingestionJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'COMPLETED',
+          processedChunks: job.totalChunks,
+          lockedUntil: null,
+          lastError: null,
+          completedAt: new Date(),
+        },
+      }),
+    ]);
+
+    console.log(`✓ Ingestion job ${job.id} completed (${job.totalChunks} chunks)`);
+    return completedJob;
+  } catch (error: any) {
+    const exhausted = job.attempts >= job.maxAttempts;
+    console.error(`✗ Ingestion job ${job.id} failed${exhausted ? ' permanently' : ', will retry'}:`, error);
+
+    // Only touch jobs still ours - a superseded job must stay FAILED
+    const { count } = await prisma.ingestionJob.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: {
+        status: exhausted ? 'FAILED' : 'QUEUED',
+        lastError: error.message || String(error),
+        lockedUntil: null,
+      },
+    });
+
+    if (count > 0 && exhausted) {
+      await prisma.document.update({
+        where: { id: job.documentId },
+        data: { status: 'FAILED' },
+      }).catch(() => {});
+    }
+
+    return prisma.ingestionJob.findUnique({ where: { id: job.id } });
+  }
+}
+
+/**
+ * Resume queued jobs and jobs whose worker died mid-run
+ * Called from the worker route (cron) - processes jobs one at a time
+ */
+export async function resumeIngestionJobs(limit: number = 5): Promise<IngestionJob[]> {
+  // Jobs that crashed on their last allowed attempt can't be claimed again
+  const abandoned = await prisma.ingestionJob.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedUntil: { lt: new Date() },
+      attempts: { gte: prisma.ingestionJob.fields.maxAttempts },
+    },
+  });
+
+  for (const job of abandoned) {
+    await prisma.$transaction([
+      prisma.ingestionJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', lockedUntil: null, lastError: job.lastError || 'Worker stopped before completing the job' },
+      }),
+      prisma.document.update({
+        where: { id: job.documentId },
+        data: { status: 'FAILED' },
+      }),
+    ]);
+  }
+
+  const jobs = await prisma.ingestionJob.findMany({
+    where: {
+      OR: [
+        { status: 'QUEUED' },
+        { status: 'RUNNING', lockedUntil: { lt: new Date() } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  const results: IngestionJob[] = [];
+  for (const job of jobs) {
+    const result = await processIngestionJob(job.id);
+    if (result) results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Serialize a job for API responses
+ */
+export function formatIngestionJob(job: IngestionJob) {
+  return {
+    job_id: job.id,
+    document_id: job.documentId,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    total_chunks: job.totalChunks,
+    processed_chunks: job.processedChunks,
+    progress: job.totalChunks > 0 ? job.processedChunks / job.totalChunks : 1,
+    last_error: job.lastError,
+    created_at: job.createdAt,
+    started_at: job.startedAt,
+    completed_at: job.completedAt,
+  };
+}
@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from './db';
+import { LLM_ROLES, getLlmClient, getTenantModels, type LlmMessage, type LlmTool } from './llm';
+
+vi.mock('./db', () => ({
+  prisma: {
+    tenantSettings: { findUnique: vi.fn() },
+  },
+}));
+
+const fetchMock = vi.fn();
+
+const weatherTool: LlmTool = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+};
+
+function completion(message: Record<string, unknown>): Response {
+  return new Response(JSON.stringify({ choices: [{ message }] }), { status: 200 });
+}
+
+/**
+ * A streamed completion whose bytes arrive in the given pieces
+ */
+function streamed(pieces: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  }), { status: 200 });
+}
+
+function sse(delta: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+}
+
+function sentBody(call = 0): any {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', 'http://llama.test/v1/');
+  vi.stubEnv('OPENAI_COMPATIBLE_API_KEY', '');
+  vi.stubEnv('LLM_DEFAULT_MODEL', '');
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('OpenAI-compatible provider', () => {
+  const client = () => getLlmClient('openai-compatible');
+
+  it('maps a request onto /chat/completions', async () => {
+    vi.stubEnv('OPENAI_COMPATIBLE_API_KEY', 'sk-local');
+    fetchMock.mockResolvedValue(completion({ content: 'Sunny' }));
+
+    await client().generate({
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Weather in Oslo?' },
+      ],
+      tools: [weatherTool],
+      temperature: 0.2,
+      maxOutputTokens: 100,
+      json: true,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://llama.test/v1/chat/completions');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer sk-local' });
+    expect(sentBody()).toEqual({
+      model: client().model.model,
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Weather in Oslo?' },
+      ],
+      temperature: 0.2,
+      max_tokens: 100,
+      response_format: { type: 'json_object' },
+      tools: [{ type: 'function', function: weatherTool }],
+      stream: false,
+    });
+  });
+
+  it('sends no Authorization header without an API key', async () => {
+    fetchMock.mockResolvedValue(completion({ content: 'ok' }));
+
+    await client().generateText('Hi');
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('attaches images to the last user message as data URLs', async () => {
+    fetchMock.mockResolvedValue(completion({ content: 'A cat' }));
+
+    await client().generate({
+      messages: [
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Send the picture' },
+        { role: 'user', content: 'What is this?' },
+      ],
+      files: [{ data: Buffer.from('png-bytes'), mimeType: 'image/png' }],
+    });
+
+    const { messages } = sentBody();
+    expect(messages[0]).toEqual({ role: 'user', content: 'First' });
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}` } },
+      ],
+    });
+  });
+
+  it('refuses files other than images', async () => {
+    await expect(client().generate({
+      messages: [{ role: 'user', content: 'Summarize' }],
+      files: [{ data: Buffer.from('%PDF'), mimeType: 'application/pdf' }],
+    })).rejects.toThrow("can't read application/pdf files");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reads text and tool calls from a completion', async () => {
+    fetchMock.mockResolvedValue(completion({
+      content: null,
+      tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } },
+        { type: 'function', function: { name: 'get_weather', arguments: '{not json' } },
+        { id: 'call_3', type: 'function', function: { name: 'get_weather', arguments: { city: 'Bergen' } } },
+      ],
+    }));
+
+    const response = await client().generate({ messages: [{ role: 'user', content: 'Weather?' }], tools: [weatherTool] });
+
+    expect(response).toEqual({
+      text: '',
+      toolCalls: [
+        { id: 'call_1', name: 'get_weather', args: { city: 'Oslo' } },
+        { id: 'get_weather-1', name: 'get_weather', args: {} },
+        { id: 'call_3', name: 'get_weather', args: { city: 'Bergen' } },
+      ],
+    });
+  });
+
+  it('sends tool calls and their results back in the next request', async () => {
+    fetchMock
+      .mockResolvedValueOnce(completion({
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+      }))
+      .mockResolvedValueOnce(completion({ content: 'It is 4°C in Oslo' }));
+
+    const messages: LlmMessage[] = [{ role: 'user', content: 'Weather in Oslo?' }];
+    const first = await client().generate({ messages, tools: [weatherTool] });
+    messages.push({ role: 'assistant', content: first.text, toolCalls: first.toolCalls });
+    for (const call of first.toolCalls) {
+      messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: '{"celsius":4}' });
+    }
+    const second = await client().generate({ messages, tools: [weatherTool] });
+
+    expect(second.text).toBe('It is 4°C in Oslo');
+    expect(sentBody(1).messages).toEqual([
+      { role: 'user', content: 'Weather in Oslo?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"celsius":4}' },
+    ]);
+  });
+
+  it('streams text to onToken across split chunks', async () => {
+    const body = sse({ content: 'Hel' }) + sse({ content: 'lo' }) + sse({ content: ' world' }) + 'data: [DONE]\n\n';
+    // Cut mid-line so a data line spans two reads
+    fetchMock.mockResolvedValue(streamed([body.slice(0, 30), body.slice(30)]));
+    const tokens: string[] = [];
+
+    const response = await client().generate({
+      messages: [{ role: 'user', content: 'Greet' }],
+      onToken: text => tokens.push(text),
+    });
+
+    expect(sentBody().stream).toBe(true);
+    expect(tokens).toEqual(['Hel', 'lo', ' world']);
+    expect(response).toEqual({ text: 'Hello world', toolCalls: [] });
+  });
+
+  it('assembles streamed tool calls from their pieces', async () => {
+    fetchMock.mockResolvedValue(streamed([
+      sse({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_', arguments: '' } }] }),
+      sse({ tool_calls: [{ index: 0, function: { name: 'weather', arguments: '{"city":' } }] }),
+      sse({ tool_calls: [{ index: 1, function: { name: 'get_weather', arguments: '{"city":"Bergen"}' } }] }),
+      sse({ tool_calls: [{ index: 0, function: { arguments: '"Oslo"}' } }] }),
+      'data: [DONE]\n\n',
+    ]));
+
+    const response = await client().generate({
+      messages: [{ role: 'user', content: 'Weather?' }],
+      tools: [weatherTool],
+      onToken: () => {},
+    });
+
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'get_weather', args: { city: 'Oslo' } },
+      { id: 'get_weather-1', name: 'get_weather', args: { city: 'Bergen' } },
+    ]);
+  });
+
+  it('throws with the HTTP status on errors', async () => {
+    fetchMock.mockResolvedValue(new Response('slow down', { status: 429 }));
+
+    await expect(client().generateText('Hi')).rejects.toMatchObject({
+      message: 'OpenAI-compatible request failed (429): slow down',
+      status: 429,
+    });
+  });
+
+  it('parses JSON answers wrapped in code fences', async () => {
+    fetchMock.mockResolvedValue(completion({ content: '```json\n{"queries": ["a", "b"]}\n```' }));
+
+    await expect(client().generateJSON('Plan')).resolves.toEqual({ queries: ['a', 'b'] });
+  });
+});
+
+describe('getTenantModels', () => {
+  it('runs every role on its default without tenant settings', async () => {
+    vi.mocked(prisma.tenantSettings.findUnique).mockResolvedValue(null);
+
+    const models = await getTenantModels('tenant-1');
+
+    expect(Object.keys(models).sort()).toEqual([...LLM_ROLES].sort());
+    expect(models.planner.model.id).toBe('gemini-2.5-flash-lite');
+    expect(models.agent.model.id).toBe('gemini-2.5-flash');
+    expect(models.deep_reasoner.model.id).toBe('gemini-2.5-pro');
+  });
+
+  it("uses the tenant's picks and defaults for the other roles", async () => {
+    vi.mocked(prisma.tenantSettings.findUnique).mockResolvedValue({
+      llmModels: { analyst: 'openai-compatible', agent: 'gemini-2.5-pro' },
+    } as any);
+
+    const models = await getTenantModels('tenant-1');
+
+    expect(models.analyst.model.id).toBe('openai-compatible');
+    expect(models.agent.model.id).toBe('gemini-2.5-pro');
+    expect(models.planner.model.id).toBe('gemini-2.5-flash-lite');
+  });
+
+  it('ignores unknown roles, removed models and inherited keys', async () => {
+    vi.mocked(prisma.tenantSettings.findUnique).mockResolvedValue({
+      llmModels: JSON.parse('{"analyst": "gpt-retired", "toString": "openai-compatible", "janitor": "gemini-2.5-pro", "planner": "constructor"}'),
+    } as any);
+
+    const models = await getTenantModels('tenant-1');
+
+    expect(models.analyst.model.id).toBe('gemini-2.5-flash-lite');
+    expect(models.planner.model.id).toBe('gemini-2.5-flash-lite');
+    expect(Object.keys(models).sort()).toEqual([...LLM_ROLES].sort());
+  });
+
+  it('falls back to LLM_DEFAULT_MODEL before the role defaults', async () => {
+    vi.stubEnv('LLM_DEFAULT_MODEL', 'openai-compatible');
+    vi.mocked(prisma.tenantSettings.findUnique).mockResolvedValue({
+      llmModels: { agent: 'gemini-2.5-flash' },
+    } as any);
+
+    const models = await getTenantModels('tenant-1');
+
+    expect(models.agent.model.id).toBe('gemini-2.5-flash');
+    expect(models.analyst.model.id).toBe('openai-compatible');
+    expect(models.deep_reasoner.model.id).toBe('openai-compatible');
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * LLM Provider Registry
+ * Named chat models, the providers that serve them and the model each agent
+ * role runs on. Tenants can pick a model per role (TenantSettings.llmModels);
+ * unset roles use LLM_DEFAULT_MODEL, then the role's default below
+ *
+ * Providers:
+ * - gemini: Google Gemini (GEMINI_API_KEY)
+ * - openai-compatible: any /v1/chat/completions server - OpenAI, vLLM,
+ *   llama.cpp or Ollama - at OPENAI_COMPATIBLE_BASE_URL. With
+ *   LLM_DEFAULT_MODEL=openai-compatible and local embeddings the whole
+ *   pipeline runs offline against a local server
+ */
+
+import { GoogleGenerativeAI, type Content, type EnhancedGenerateContentResponse, type FunctionDeclaration, type Part } from '@google/generative-ai';
+import { prisma } from './db';
+import type { MultimodalFile } from './gemini';
+
+export type LlmProviderName = 'gemini' | 'openai-compatible';
+
+/**
+ * Agent roles that call a model
+ * - rewriter: standalone form of follow-up questions
+ * - planner: retrieval plans and gap queries of the pipeline
+ * - analyst: pipeline answers and risk registers
+ * - auditor: pipeline answer audits (score and missing aspects)
+ * - agent: the standard mode's function calling agent
+ * - reasoner / deep_reasoner: the web and deep modes
+ * - multimodal: questions about attached images, videos and documents
+ * - web_search: web result summaries
+ */
+export type LlmRole =
+  | 'rewriter'
+  | 'planner'
+  | 'analyst'
+  | 'auditor'
+  | 'agent'
+  | 'reasoner'
+  | 'deep_reasoner'
+  | 'multimodal'
+  | 'web_search';
+
+export interface LlmModel {
+  id: string; // Registry key, stored in tenant settings
+  provider: LlmProviderName;
+  model: string; // Name sent to the provider
+  description: string;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export type LlmMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+/**
+ * A function the model may call; parameters is a JSON Schema object
+ */
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: string; description?: string }>;
+    required?: string[];
+  };
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  files?: MultimodalFile[]; // Attached to the last user message
+  tools?: LlmTool[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean; // Respond with a JSON object
+  onToken?: (text: string) => void; // Streams the response text as it is generated
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  generate(model: string, request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * A model bound to its provider
+ */
+export interface LlmClient {
+  model: LlmModel;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  generateText(prompt: string, options?: Omit<LlmRequest, 'messages' | 'json'>): Promise<string>;
+  generateJSON<T = any>(prompt: string, options?: Omit<LlmRequest, 'messages' | 'json' | 'onToken'>): Promise<T>;
+}
+
+export type TenantModels = Record<LlmRole, LlmClient>;
+
+const models: Record<string, LlmModel> = {
+  'gemini-2.5-flash-lite': {
+    id: 'gemini-2.5-flash-lite',
+    provider: 'gemini',
+    model: 'gemini-2.5-flash-lite',
+    description: 'Gemini 2.5 Flash-Lite (fastest, lowest cost)',
+  },
+  'gemini-2.5-flash': {
+    id: 'gemini-2.5-flash',
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    description: 'Gemini 2.5 Flash (function calling, multimodal)',
+  },
+  'gemini-2.5-pro': {
+    id: 'gemini-2.5-pro',
+    provider: 'gemini',
+    model: 'gemini-2.5-pro',
+    description: 'Gemini 2.5 Pro (long-form reasoning)',
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    provider: 'openai-compatible',
+    model: process.env.OPENAI_COMPATIBLE_MODEL || 'local',
+    description: `OpenAI-compatible server (${process.env.OPENAI_COMPATIBLE_MODEL || 'local'})`,
+  },
+};
+
+const ROLE_DEFAULTS: Record<LlmRole, string> = {
+  rewriter: 'gemini-2.5-flash-lite',
+  planner: 'gemini-2.5-flash-lite',
+  analyst: 'gemini-2.5-flash-lite',
+  auditor: 'gemini-2.5-flash-lite',
+  agent: 'gemini-2.5-flash',
+  reasoner: 'gemini-2.5-flash',
+  deep_reasoner: 'gemini-2.5-pro',
+  multimodal: 'gemini-2.5-flash',
+  web_search: 'gemini-2.5-flash',
+};
+
+export const LLM_ROLES = Object.keys(ROLE_DEFAULTS) as LlmRole[];
+
+export function isLlmRole(value: unknown): value is LlmRole {
+  return typeof value === 'string' && Object.hasOwn(ROLE_DEFAULTS, value);
+}
+
+/**
+ * Look up a model by registry id
+ */
+export function getLlmModel(id: string): LlmModel {
+  const model = Object.hasOwn(models, id) ? models[id] : undefined;
+  if (!model) {
+    throw new Error(`Unknown LLM model "${id}". Available: ${Object.keys(models).join(', ')}`);
+  }
+  return model;
+}
+
+export function listLlmModels(): LlmModel[] {
+  return Object.values(models);
+}
+
+/**
+ * Model id a role runs on for tenants that haven't picked one
+ */
+export function getDefaultModelId(role: LlmRole): string {
+  return process.env.LLM_DEFAULT_MODEL || ROLE_DEFAULTS[role];
+}
+
+/**
+ * Model ids a tenant picked, by role
+ */
+export async function getTenantModelSelection(tenantId: string): Promise<Partial<Record<LlmRole, string>>> {
+  const settings = await prisma.tenantSettings.findUnique({
+    where: { tenantId },
+    select: { llmModels: true },
+  });
+
+  const stored = (settings?.llmModels || {}) as Record<string, unknown>;
+  const selection: Partial<Record<LlmRole, string>> = {};
+  for (const [role, id] of Object.entries(stored)) {
+    // Skip models removed from the registry since they were picked
+    if (isLlmRole(role) && typeof id === 'string' && Object.hasOwn(models, id)) {
+      selection[role] = id;
+    }
+  }
+  return selection;
+}
+
+/**
+ * Resolve the model of every role for a tenant
+ */
+export async function getTenantModels(tenantId: string): Promise<TenantModels> {
+  const selection = await getTenantModelSelection(tenantId);
+  return Object.fromEntries(
+    LLM_ROLES.map(role => [role, getLlmClient(selection[role] || getDefaultModelId(role))])
+  ) as TenantModels;
+}
+
+/**
+ * Bind a registry model to its provider
+ */
+export function getLlmClient(id: string): LlmClient {
+  const model = getLlmModel(id);
+  const provider = providers[model.provider];
+
+  const generate = (request: LlmRequest) => provider.generate(model.model, request);
+
+  return {
+    model,
+    generate,
+    async generateText(prompt, options = {}) {
+      const response = await generate({ ...options, messages: [{ role: 'user', content: prompt }] });
+      return response.text;
+    },
+    async generateJSON(prompt, options = {}) {
+      const response = await generate({ ...options, json: true, messages: [{ role: 'user', content: prompt }] });
+      return parseJSONResponse(response.text);
+    },
+  };
+}
+
+/**
+ * Parse a JSON response, tolerating the ```json fences local models add
+ */
+function parseJSONResponse(text: string): any {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+function fileToGeminiPart(file: MultimodalFile): Part {
+  return {
+    inlineData: {
+      data: Buffer.from(file.data).toString('base64'),
+      mimeType: file.mimeType,
+    },
+  };
+}
+
+/**
+ * Map messages to Gemini contents
+ * Consecutive tool results are sent back as one function turn
+ */
+function toGeminiContents(request: LlmRequest): { systemInstruction?: string; contents: Content[] } {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content);
+  const contents: Content[] = [];
+
+  for (const message of request.messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const part: Part = { functionResponse: { name: message.name, response: { result: message.content } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'function') {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'function', parts: [part] });
+      }
+    } else if (message.role === 'assistant') {
+      const parts: Part[] = message.content ? [{ text: message.content }] : [];
+      for (const call of message.toolCalls || []) {
+        parts.push({ functionCall: { name: call.name, args: call.args } });
+      }
+      contents.push({ role: 'model', parts });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    }
+  }
+
+  if (request.files?.length) {
+    const lastUser = [...contents].reverse().find(c => c.role === 'user');
+    if (!lastUser) throw new Error('Files need a user message to attach to');
+    lastUser.parts.push(...request.files.map(fileToGeminiPart));
+  }
+
+  return {
+    systemInstruction: system.length > 0 ? system.join('\n\n') : undefined,
+    contents,
+  };
+}
+
+function fromGeminiResponse(response: EnhancedGenerateContentResponse): LlmResponse {
+  // Read parts directly - response.text() throws on blocked candidates
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    toolCalls: (response.functionCalls() || []).map((call, i) => ({
+      id: `${call.name}-${i}`,
+      name: call.name,
+      args: (call.args || {}) as Record<string, any>,
+    })),
+  };
+}
+
+const gemini: LlmProvider = {
+  name: 'gemini',
+  async generate(model, request) {
+    const { systemInstruction, contents } = toGeminiContents(request);
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      systemInstruction,
+      tools: request.tools?.length
+        ? [{ functionDeclarations: request.tools as unknown as FunctionDeclaration[] }]
+        : undefined,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        responseMimeType: request.json ? 'application/json' : undefined,
+      },
+    });
+
+    if (!request.onToken) {
+      const result = await generativeModel.generateContent({ contents });
+      return fromGeminiResponse(result.response);
+    }
+
+    const result = await generativeModel.generateContentStream({ contents });
+    for await (const chunk of result.stream) {
+      const text = chunk.candidates?.[0]?.content?.parts
+        ?.map(part => part.text || '')
+        .join('');
+      if (text) request.onToken(text);
+    }
+    return fromGeminiResponse(await result.response);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible
+// ---------------------------------------------------------------------------
+
+function openAIMessages(model: string, request: LlmRequest): any[] {
+  const lastUser = request.messages.map(m => m.role).lastIndexOf('user');
+
+  return request.messages.map((message, i) => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls?.length
+          ? message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.args) },
+            }))
+          : undefined,
+      };
+    }
+    if (i === lastUser && request.files?.length) {
+      // Chat completions only carry images
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: message.content },
+          ...request.files.map(file => {
+            if (!file.mimeType.startsWith('image/')) {
+              throw new Error(`${model} can't read ${file.mimeType} files; pick a Gemini model for the multimodal role`);
+            }
+            return {
+              type: 'image_url',
+              image_url: { url: `data:${file.mimeType};base64,${Buffer.from(file.data).toString('base64')}` },
+            };
+          }),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Read a streamed chat completion, forwarding text to onToken
+ */
+async function readOpenAIStream(body: ReadableStream<Uint8Array>, onToken: (text: string) => void): Promise<LlmResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const calls: Array<{ id: string; name: string; arguments: string }> = [];
+  let text = '';
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      const delta = JSON.parse(payload).choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onToken(delta.content);
+      }
+      // Tool calls arrive in pieces, keyed by index
+      for (const piece of delta?.tool_calls || []) {
+        const call = calls[piece.index] ||= { id: '', name: '', arguments: '' };
+        if (piece.id) call.id = piece.id;
+        if (piece.function?.name) call.name += piece.function.name;
+        if (piece.function?.arguments) call.arguments += piece.function.arguments;
+      }
+    }
+  }
+
+  return {
+    text,
+    toolCalls: calls.filter(Boolean).map((call, i) => ({
+      id: call.id || `${call.name}-${i}`,
+      name: call.name,
+      args: parseToolArguments(call.arguments),
+    })),
+  };
+}
+
+function parseToolArguments(json: string): Record<string, any> {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+}
+
+const openAICompatible: LlmProvider = {
+  name: 'openai-compatible',
+  async generate(model, request) {
+    const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8080/v1').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: openAIMessages(model, request),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+        tools: request.tools?.length
+          ? request.tools.map(tool => ({ type: 'function', function: tool }))
+          : undefined,
+        stream: Boolean(request.onToken),
+      }),
+    });
+
+    if (!response.ok) {
+      // status lets retryWithBackoff recognize rate limits
+      throw Object.assign(
+        new Error(`OpenAI-compatible request failed (${response.status}): ${await response.text()}`),
+        { status: response.status }
+      );
+    }
+
+    if (request.onToken && response.body) {
+      return readOpenAIStream(response.body, request.onToken);
+    }
+
+    const message = (await response.json()).choices?.[0]?.message;
+    return {
+      text: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map((call: any, i: number) => ({
+        id: call.id || `${call.function.name}-${i}`,
+        name: call.function.name,
+        args: typeof call.function.arguments === 'string'
+          ? parseToolArguments(call.function.arguments)
+          : call.function.arguments || {},
+      })),
+    };
+  },
+};
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  gemini,
+  'openai-compatible': openAICompatible,
+};
@@ -0,0 +1,82 @@
+/**
+ * Mailer
+ * Outgoing email through a named transport, picked with MAIL_TRANSPORT:
+ * - console: prints each message to the server log (default)
+ * - file: writes each message as a .eml file to MAIL_FILE_DIR (default ./.mail)
+ * Other transports (SMTP, a provider's HTTP API) plug in through
+ * registerMailTransport
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  description: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const transports: Record<string, MailTransport> = {
+  console: {
+    name: 'console',
+    description: 'Prints messages to the server log',
+    async send(message) {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  },
+  file: {
+    name: 'file',
+    description: 'Writes .eml files to MAIL_FILE_DIR',
+    async send(message) {
+      const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail');
+      await mkdir(dir, { recursive: true });
+
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+      const body = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n');
+
+      await writeFile(path.join(dir, fileName), body, 'utf8');
+      console.log(`📧 Mail to ${message.to} written to ${fileName}`);
+    },
+  },
+};
+
+/**
+ * Add or replace a transport, selectable with MAIL_TRANSPORT=<name>
+ */
+export function registerMailTransport(transport: MailTransport): void {
+  transports[transport.name] = transport;
+}
+
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = Object.hasOwn(transports, name) ? transports[name] : undefined;
+  if (!transport) {
+    throw new Error(
+      `Unknown mail transport "${name}". Available: ${Object.keys(transports).join(', ')}`
+    );
+  }
+  return transport;
+}
+
+/**
+ * Send a message from MAIL_FROM through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'KORASENSE <no-reply@korasense.local>';
+  await getMailTransport().send({ ...message, from });
+}
@@ -0,0 +1,280 @@
+/**
+ * Team Management
+ * Tenant memberships and the invitations that create them. Invitation
+ * tokens go out by email (mailer.ts) and only their hash is stored; a
+ * tenant always keeps at least one admin
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Role, Tenant, TenantInvitation, TenantMember, User } from '@prisma/client';
+import { prisma } from './db';
+import { sendMail } from './mailer';
+
+export const ROLES: Role[] = ['MEMBER', 'TENANT_ADMIN', 'SUPER_ADMIN'];
+
+const ADMIN_ROLES: Role[] = ['TENANT_ADMIN', 'SUPER_ADMIN'];
+
+type MemberResult<T> = T | { error: string; status: number };
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Only a SUPER_ADMIN may hand out SUPER_ADMIN
+ */
+function canAssignRole(actorRole: Role, role: Role): boolean {
+  return role !== 'SUPER_ADMIN' || actorRole === 'SUPER_ADMIN';
+}
+
+/**
+ * Days an invitation stays valid (INVITATION_TTL_DAYS, default 7)
+ */
+function getInvitationTtlDays(): number {
+  const days = parseInt(process.env.INVITATION_TTL_DAYS || '', 10);
+  return days > 0 ? days : 7;
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isInvitationExpired(invitation: TenantInvitation): boolean {
+  return invitation.status === 'PENDING' && invitation.expiresAt.getTime() < Date.now();
+}
+
+function getInviteUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${baseUrl.replace(/\/$/, '')}/invite/${token}`;
+}
+
+/**
+ * Whether removing or demoting this member would leave the tenant without an admin
+ */
+async function isLastAdmin(member: TenantMember): Promise<boolean> {
+  if (!ADMIN_ROLES.includes(member.role)) return false;
+
+  const otherAdmins = await prisma.tenantMember.count({
+    where: {
+      tenantId: member.tenantId,
+      role: { in: ADMIN_ROLES },
+      id: { not: member.id },
+    },
+  });
+  return otherAdmins === 0;
+}
+
+export async function listMembers(tenantId: string) {
+  return prisma.tenantMember.findMany({
+    where: { tenantId },
+    include: { user: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Pending invitations, expired ones included so admins can see and resend them
+ */
+export async function listPendingInvitations(tenantId: string) {
+  return prisma.tenantInvitation.findMany({
+    where: { tenantId, status: 'PENDING' },
+    include: { invitedBy: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Invite someone into a tenant by email
+ * A pending invitation for the same address is revoked, so re-inviting resends
+ */
+export async function createInvitation(params: {
+  tenant: Tenant;
+  inviter: User;
+  inviterRole: Role;
+  email: string;
+  role: Role;
+}): Promise<MemberResult<{ invitation: TenantInvitation }>> {
+  const { tenant, inviter, inviterRole, role } = params;
+  const email = params.email.trim().toLowerCase();
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: 'email must be a valid email address', status: 400 };
+  }
+  if (!canAssignRole(inviterRole, role)) {
+    return { error: 'Only a SUPER_ADMIN can invite a SUPER_ADMIN', status: 403 };
+  }
+
+  const existingMember = await prisma.tenantMember.findFirst({
+    where: {
+      tenantId: tenant.id,
+      user: { email: { equals: email, mode: 'insensitive' } },
+    },
+  });
+  if (existingMember) {
+    return { error: `${email} is already a member of this tenant`, status: 409 };
+  }
+
+  await prisma.tenantInvitation.updateMany({
+    where: { tenantId: tenant.id, email, status: 'PENDING' },
+    data: { status: 'REVOKED' },
+  });
+
+  const token = randomBytes(32).toString('base64url');
+  const ttlDays = getInvitationTtlDays();
+  const invitation = await prisma.tenantInvitation.create({
+    data: {
+      tenantId: tenant.id,
+      email,
+      role,
+      tokenHash: hashInvitationToken(token),
+      invitedById: inviter.id,
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  const inviteUrl = getInviteUrl(token);
+  try {
+    await sendMail({
+      to: email,
+      subject: `You're invited to ${tenant.name} on KORASENSE`,
+      text: [
+        `${inviter.name || inviter.email} invited you to join ${tenant.name} as ${role}.`,
+        '',
+        `Accept the invitation: ${inviteUrl}`,
+        '',
+        `This link expires in ${ttlDays} days.`,
+      ].join('\n'),
+    });
+  } catch (error) {
+    // An invitation nobody received cannot be accepted: drop it so the admin can retry
+    await prisma.tenantInvitation.delete({ where: { id: invitation.id } });
+    throw error;
+  }
+
+  console.log(`✉️ Invited ${email} to ${tenant.slug} as ${role}`);
+  return { invitation };
+}
+
+/**
+ * Look up an invitation from the token in its link
+ */
+export async function getInvitationByToken(token: string) {
+  return prisma.tenantInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: { tenant: true, invitedBy: true },
+  });
+}
+
+/**
+ * Join the invitation's tenant as the signed-in user
+ * The invitation must be pending, unexpired and addressed to the user's email;
+ * an existing membership keeps its role
+ */
+export async function acceptInvitation(
+  token: string,
+  user: User
+): Promise<MemberResult<{ tenant: Tenant; member: TenantMember }>> {
+  const invitation = await getInvitationByToken(token);
+  if (!invitation) {
+    return { error: 'Invitation not found', status: 404 };
+  }
+  if (invitation.status !== 'PENDING') {
+    return { error: `Invitation was ${invitation.status.toLowerCase()}`, status: 410 };
+  }
+  if (isInvitationExpired(invitation)) {
+    return { error: 'Invitation has expired', status: 410 };
+  }
+  if (invitation.email !== user.email.toLowerCase()) {
+    return { error: `This invitation was sent to ${invitation.email}`, status: 403 };
+  }
+
+  const [member] = await prisma.$transaction([
+    prisma.tenantMember.upsert({
+      where: { tenantId_userId: { tenantId: invitation.tenantId, userId: user.id } },
+      update: {},
+      create: {
+        tenantId: invitation.tenantId,
+        userId: user.id,
+        role: invitation.role,
+      },
+    }),
+    prisma.tenantInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'ACCEPTED', acceptedAt: new Date() },
+    }),
+  ]);
+
+  console.log(`✓ ${user.email} joined ${invitation.tenant.slug} as ${member.role}`);
+  return { tenant: invitation.tenant, member };
+}
+
+export async function revokeInvitation(invitation: TenantInvitation): Promise<TenantInvitation> {
+  return prisma.tenantInvitation.update({
+    where: { id: invitation.id },
+    data: { status: 'REVOKED' },
+  });
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(
+  member: TenantMember,
+  role: Role,
+  actorRole: Role
+): Promise<MemberResult<{ member: TenantMember }>> {
+  if (!canAssignRole(actorRole, role) || !canAssignRole(actorRole, member.role)) {
+    return { error: 'Only a SUPER_ADMIN can grant or change SUPER_ADMIN', status: 403 };
+  }
+  if (!ADMIN_ROLES.includes(role) && await isLastAdmin(member)) {
+    return { error: 'A tenant needs at least one admin', status: 409 };
+  }
+
+  const updated = await prisma.tenantMember.update({
+    where: { id: member.id },
+    data: { role },
+  });
+  return { member: updated };
+}
+
+/**
+ * Remove a member from the tenant; their questions and documents stay
+ */
+export async function removeMember(
+  member: TenantMember,
+  actorRole: Role
+): Promise<MemberResult<{ member: TenantMember }>> {
+  if (!canAssignRole(actorRole, member.role)) {
+    return { error: 'Only a SUPER_ADMIN can remove a SUPER_ADMIN', status: 403 };
+  }
+  if (await isLastAdmin(member)) {
+    return { error: 'A tenant needs at least one admin', status: 409 };
+  }
+
+  await prisma.tenantMember.delete({ where: { id: member.id } });
+  return { member };
+}
+
+export function formatMember(member: TenantMember & { user: User }) {
+  return {
+    id: member.id,
+    user_id: member.userId,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role,
+    joined_at: member.createdAt,
+  };
+}
+
+export function formatInvitation(invitation: TenantInvitation & { invitedBy?: User | null }) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: isInvitationExpired(invitation) ? 'EXPIRED' : invitation.status,
+    invited_by: invitation.invitedBy?.email ?? null,
+    expires_at: invitation.expiresAt,
+    accepted_at: invitation.acceptedAt,
+    created_at: invitation.createdAt,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Query Orchestrator
+ * Single entry point for every Q&A path: rewrites follow-ups, runs the
+ * requested mode and persists the run as a QaSession with its QaMetrics, so
+ * every answer can be given feedback and shows up in the dashboards
+ */
+
+import { prisma } from './db';
+import { runQueryRewriter, type ConversationTurn, type MultimodalFile } from './gemini';
+import { runGeminiAgent, runGeminiAgentWithWeb } from './gemini_agent';
+import { runAgentPipeline, runMultimodalPipeline } from './agent_pipeline';
+import { getTenantModels } from './llm';
+import { citationsToJson, type Citation } from './citations';
+import type { RetrievalFilter } from './retrieval';
+import type {
+  AgentStreamHandlers,
+  AgentTraceStep,
+  ModeRunner,
+  QueryMode,
+} from './types/agent';
+
+const MODES: Record<QueryMode, ModeRunner> = {
+  standard: runGeminiAgent,
+  deep: (request) => runGeminiAgentWithWeb(request, 'deep'),
+  web: (request) => runGeminiAgentWithWeb(request, 'web'),
+  pipeline: (request) => runAgentPipeline(request),
+  multimodal: runMultimodalPipeline,
+};
+
+export const QUERY_MODES = Object.keys(MODES) as QueryMode[];
+
+export function isQueryMode(value: unknown): value is QueryMode {
+  return typeof value === 'string' && Object.hasOwn(MODES, value);
+}
+
+export interface QueryRequest {
+  question: string;
+  tenantId: string;
+  userId?: string;
+  mode?: QueryMode; // Default: standard; attached files always run multimodal
+  files?: MultimodalFile[];
+  filter?: RetrievalFilter;
+  contextTags?: string[]; // Only documents carrying every tag are searched
+  useWebSearch?: boolean;
+  conversation?: {
+    id: string;
+    history: ConversationTurn[]; // Prior turns, oldest first
+  };
+  handlers?: AgentStreamHandlers;
+}
+
+export interface QueryResult {
+  sessionId: string;
+  mode: QueryMode;
+  question: string;
+  standaloneQuestion: string; // Equals question unless a follow-up was rewritten
+  answer: string;
+  citations: Citation[];
+  qualityScore: number;
+  trace: AgentTraceStep[];
+  totalLatencyMs: number;
+}
+
+/**
+ * Mode a request runs in
+ */
+export function resolveMode(request: Pick<QueryRequest, 'mode' | 'files' | 'useWebSearch'>): QueryMode {
+  if (request.files && request.files.length > 0) return 'multimodal';
+  if (request.useWebSearch && (!request.mode || request.mode === 'standard')) return 'web';
+  return request.mode || 'standard';
+}
+
+/**
+ * Answer a question and persist the run
+ */
+export async function runQuery(request: QueryRequest): Promise<QueryResult> {
+  const { question, tenantId, userId, conversation, handlers = {} } = request;
+  const startTime = Date.now();
+  const mode = resolveMode(request);
+  const history = conversation?.history || [];
+  const trace: AgentTraceStep[] = [];
+  const models = await getTenantModels(tenantId);
+
+  // Follow-ups like "what about last quarter?" can't be retrieved on their own
+  let standaloneQuestion = question;
+  if (history.length > 0) {
+    const rewriteStart = Date.now();
+    standaloneQuestion = await runQueryRewriter(models.rewriter, question, history);
+    const step: AgentTraceStep = {
+      step: 'QUERY_REWRITE',
+      summary: standaloneQuestion !== question
+        ? `Rewrote follow-up as "${standaloneQuestion}"`
+        : 'Question is already standalone',
+      durationMs: Date.now() - rewriteStart,
+      documentsUsed: [],
+      status: 'success',
+      details: `Original: ${question}\nStandalone: ${standaloneQuestion}\nPrior turns: ${history.length}`,
+    };
+    trace.push(step);
+    handlers.onStep?.(step);
+  }
+
+  console.log(`🎛️ Running ${mode} mode for tenant ${tenantId}`);
+
+  const result = await MODES[mode]({
+    question: standaloneQuestion,
+    tenantId,
+    history,
+    filter: withContextTags(request.filter, request.contextTags),
+    files: request.files || [],
+    useWebSearch: request.useWebSearch || false,
+    models,
+    handlers,
+  });
+  trace.push(...result.trace);
+
+  const totalLatencyMs = Date.now() - startTime;
+
+  const session = await prisma.qaSession.create({
+    data: {
+      tenantId,
+      userId,
+      conversationId: conversation?.id,
+      mode,
+      question,
+      rewrittenQuestion: standaloneQuestion !== question ? standaloneQuestion : undefined,
+      finalAnswer: result.answer,
+      citations: citationsToJson(result.citations),
+      agentTrace: trace as any,
+      qualityScore: result.qualityScore,
+      totalLatencyMs,
+      metrics: {
+        create: {
+          tenantId,
+          ...result.retrieval,
+          geminiLatencyMs: Math.max(0, totalLatencyMs - result.retrieval.retrievalLatencyMs),
+        },
+      },
+    },
+  });
+
+  if (conversation) {
+    // Bump updatedAt so the thread sorts first
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    mode,
+    question,
+    standaloneQuestion,
+    answer: result.answer,
+    citations: result.citations,
+    qualityScore: result.qualityScore,
+    trace,
+    totalLatencyMs,
+  };
+}
+
+/**
+ * Add context tags to a caller's filter (documents must carry all of them)
+ */
+function withContextTags(filter: RetrievalFilter = {}, contextTags: string[] = []): RetrievalFilter {
+  if (contextTags.length === 0) return filter;
+  return { ...filter, tags: Array.from(new Set([...(filter.tags || []), ...contextTags])) };
+}
@@ -0,0 +1,77 @@
+/**
+ * Role Permissions
+ * What each TenantMember role and each API key scope may do in its tenant,
+ * plus the fixed set for public demo visitors. Route guards (authz.ts) and UI gating
+ * both read this matrix; it has no server dependencies so client components
+ * can import it
+ */
+
+import type { ApiKeyScope, Role } from '@prisma/client';
+
+export type Permission =
+  | 'documents:read' // List and open documents and ingestion jobs
+  | 'documents:ingest' // Upload documents, FileSense sync
+  | 'documents:edit' // Rename, re-tag, re-categorize and re-index
+  | 'documents:delete'
+  | 'knowledge:query' // Ask questions, conversations, feedback
+  | 'workflows:start' // Opus workflows
+  | 'evaluation:view' // Quality, latency and feedback metrics
+  | 'settings:view'
+  | 'settings:manage' // Retrieval weights, models
+  | 'api_keys:manage'
+  | 'members:manage'
+  | 'tenants:view_all'; // Platform console of every tenant
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  'documents:read',
+  'documents:ingest',
+  'documents:edit',
+  'knowledge:query',
+  'workflows:start',
+  'settings:view',
+];
+
+const TENANT_ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  'documents:delete',
+  'evaluation:view',
+  'settings:manage',
+  'api_keys:manage',
+  'members:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  MEMBER: MEMBER_PERMISSIONS,
+  TENANT_ADMIN: TENANT_ADMIN_PERMISSIONS,
+  // A SUPER_ADMIN membership in any tenant grants this in every tenant
+  SUPER_ADMIN: [...TENANT_ADMIN_PERMISSIONS, 'tenants:view_all'],
+};
+
+/**
+ * API keys act for integrations (FileSense, external query API), not people;
+ * a key holds the union of its scopes' permissions. No scope deletes
+ * documents: a leaked sync key must not be able to wipe the tenant
+ */
+export const API_KEY_SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  READ_ONLY: ['documents:read', 'settings:view'],
+  INGEST: ['documents:read', 'documents:ingest', 'documents:edit'],
+  QUERY: ['knowledge:query'],
+  WORKFLOWS: ['workflows:start'],
+};
+
+export function getApiKeyPermissions(scopes: ApiKeyScope[]): Permission[] {
+  return Array.from(new Set(scopes.flatMap(scope => API_KEY_SCOPE_PERMISSIONS[scope])));
+}
+
+/**
+ * Anyone, signed in or not, on tenants listed in PUBLIC_DEMO_TENANTS
+ */
+export const PUBLIC_DEMO_PERMISSIONS: Permission[] = ['knowledge:query'];
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+export function getRolePermissions(role: Role | null | undefined): Permission[] {
+  return role ? ROLE_PERMISSIONS[role] : [];
+}
@@ -10,7 +10,8 @@ export interface QdrantPoint {
     tenantId: string;
     documentId: string;
     chunkIndex: number;
-    docType: string;
+    docType: string; // Document category (POLICY, INCIDENT, ...)
+    tags: string[];
     chunkStrategy: string;
     pageNumber?: number;
     sectionTitle?: string;
@@ -24,15 +25,17 @@ export interface SearchResult {
   payload: QdrantPoint['payload'];
 }
 
-class QdrantClient {
+export const DEFAULT_COLLECTION_NAME = process.env.QDRANT_COLLECTION_NAME || 'KORASENSE_chunks';
+
+export class QdrantClient {
   private url: string;
   private apiKey: string;
   private collectionName: string;
 
-  constructor() {
+  constructor(collectionName?: string) {
     this.url = process.env.QDRANT_URL || '';
     this.apiKey = process.env.QDRANT_API_KEY || '';
-    this.collectionName = process.env.QDRANT_COLLECTION_NAME || 'KORASENSE_chunks';
+    this.collectionName = collectionName || DEFAULT_COLLECTION_NAME;
 
     if (!this.url || !this.apiKey) {
       console.warn('Qdrant credentials not configured');
@@ -59,14 +62,48 @@ class QdrantClient {
   }
 
   /**
-   * Initialize collection if it doesn't exist
+   * Client bound to another collection (same cluster and credentials)
    */
-  async ensureCollection(vectorSize: number = 768) {
+  forCollection(collectionName: string): QdrantClient {
+    return new QdrantClient(collectionName);
+  }
+
+  getCollectionName(): string {
+    return this.collectionName;
+  }
+
+  /**
+   * Vector size of the collection, or null if it doesn't exist
+   */
+  async getVectorSize(): Promise<number | null> {
+    let info: any;
     try {
-      // Check if collection exists
-      await this.request(`/collections/${this.collectionName}`);
+      info = await this.request(`/collections/${this.collectionName}`);
+    } catch (error: any) {
+      if (error.message?.includes('Qdrant API error: 404')) return null;
+      throw error;
+    }
+    return info.result?.config?.params?.vectors?.size ?? null;
+  }
+
+  /**
+   * Initialize collection if it doesn't exist
+   * Throws if it exists with a different vector size - writing vectors of
+   * another dimension would corrupt the index
+   */
+  async ensureCollection(vectorSize: number) {
+    const existingSize = await this.getVectorSize();
+
+    if (existingSize !== null) {
+      if (existingSize !== vectorSize) {
+        throw new Error(
+          `Qdrant collection ${this.collectionName} stores ${existingSize}-dim vectors, ` +
+          `but the embedding provider produces ${vectorSize}-dim vectors. ` +
+          `Migrate the tenant to a new collection instead of mixing dimensions.`
+        );
+      }
       console.log(`Collection ${this.collectionName} already exists`);
-    } catch (error) {
+    } else {
       // Create collection if it doesn't exist
       await this.request(`/collections/${this.collectionName}`, {
         method: 'PUT',
@@ -92,6 +129,7 @@ class QdrantClient {
       { field: 'tenantId', type: 'keyword' },
       { field: 'documentId', type: 'keyword' },
       { field: 'docType', type: 'keyword' },
+      { field: 'tags', type: 'keyword' },
     ];
 
     for (const index of indexes) {
@@ -152,6 +190,7 @@ class QdrantClient {
       filter?: {
         docTypes?: string[];
         documentIds?: string[];
+        tags?: string[]; // Points must carry every tag
       };
     } = {}
   ): Promise<SearchResult[]> {
@@ -179,6 +218,13 @@ class QdrantClient {
       });
     }
 
+    for (const tag of filter.tags || []) {
+      must.push({
+        key: 'tags',
+        match: { value: tag },
+      });
+    }
+
     const response = await this.request(`/collections/${this.collectionName}/points/search`, {
       method: 'POST',
       body: JSON.stringify({
@@ -203,6 +249,45 @@ class QdrantClient {
     }));
   }
 
+  /**
+   * Overwrite payload fields on every point of the given documents
+   */
+  async setPayload(
+    tenantId: string,
+    documentIds: string[],
+    payload: Partial<QdrantPoint['payload']>
+  ): Promise<void> {
+    await this.request(`/collections/${this.collectionName}/points/payload`, {
+      method: 'POST',
+      body: JSON.stringify({
+        payload,
+        filter: {
+          must: [
+            { key: 'tenantId', match: { value: tenantId } },
+            { key: 'documentId', match: { any: documentIds } },
+          ],
+        },
+      }),
+    });
+  }
+
+  /**
+   * Count a tenant's points (exact)
+   */
+  async countPoints(tenantId: string): Promise<number> {
+    const response = await this.request(`/collections/${this.collectionName}/points/count`, {
+      method: 'POST',
+      body: JSON.stringify({
+        filter: {
+          must: [{ key: 'tenantId', match: { value: tenantId } }],
+        },
+        exact: true,
+      }),
+    });
+
+    return response.result.count;
+  }
+
   /**
    * Delete points by filter
    */
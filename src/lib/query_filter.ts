@@ -0,0 +1,129 @@
+/**
+ * Query Filters
+ * The `filter` object accepted by the query APIs, validated into a
+ * RetrievalFilter:
+ * {
+ *   "document_ids": ["..."],
+ *   "doc_types": ["INCIDENT"],          // Document categories
+ *   "sources": ["SENSE"],               // SENSE, MANUAL_UPLOAD, DEMO_SEED
+ *   "created_after": "2026-09-01",      // Inclusive
+ *   "created_before": "2026-10-01",     // Exclusive
+ *   "tags": ["sre"],                    // Documents carrying every tag
+ *   "title": "postmortem*"              // Case-insensitive; * is a wildcard
+ * }
+ */
+
+import { DocumentSource } from '@prisma/client';
+import { DOCUMENT_CATEGORIES, parseCategory } from './classification';
+import type { RetrievalFilter } from './retrieval';
+import { parseTags } from './tags';
+
+const DOCUMENT_SOURCES = Object.values(DocumentSource);
+const MAX_DOCUMENT_IDS = 100;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function parseDate(value: unknown, field: string): Date | { error: string } {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    return { error: `${field} must be an ISO 8601 date` };
+  }
+  return date;
+}
+
+/**
+ * Validate a request's filter object
+ * Accepts a JSON string too (multipart form fields)
+ */
+export function parseQueryFilter(input: unknown): { filter: RetrievalFilter } | { error: string } {
+  if (input === undefined || input === null || input === '') {
+    return { filter: {} };
+  }
+
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      return { error: 'filter must be a JSON object' };
+    }
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'filter must be a JSON object' };
+  }
+
+  const body = raw as Record<string, unknown>;
+  const filter: RetrievalFilter = {};
+
+  if (body.document_ids !== undefined) {
+    if (!isStringArray(body.document_ids) || body.document_ids.length > MAX_DOCUMENT_IDS) {
+      return { error: `filter.document_ids must be an array of up to ${MAX_DOCUMENT_IDS} IDs` };
+    }
+    filter.documentIds = body.document_ids;
+  }
+
+  if (body.doc_types !== undefined) {
+    const categories = isStringArray(body.doc_types) ? body.doc_types.map(parseCategory) : null;
+    if (!categories || categories.some(c => c === null)) {
+      return { error: `filter.doc_types must be categories from: ${DOCUMENT_CATEGORIES.join(', ')}` };
+    }
+    filter.docTypes = categories as string[];
+  }
+
+  if (body.sources !== undefined) {
+    const sources = isStringArray(body.sources) ? body.sources.map(s => s.trim().toUpperCase()) : null;
+    if (!sources || sources.some(s => !DOCUMENT_SOURCES.includes(s as DocumentSource))) {
+      return { error: `filter.sources must be sources from: ${DOCUMENT_SOURCES.join(', ')}` };
+    }
+    filter.sources = sources as DocumentSource[];
+  }
+
+  if (body.created_after !== undefined) {
+    const date = parseDate(body.created_after, 'filter.created_after');
+    if ('error' in date) return date;
+    filter.createdAfter = date;
+  }
+
+  if (body.created_before !== undefined) {
+    const date = parseDate(body.created_before, 'filter.created_before');
+    if ('error' in date) return date;
+    filter.createdBefore = date;
+  }
+
+  if (filter.createdAfter && filter.createdBefore && filter.createdAfter >= filter.createdBefore) {
+    return { error: 'filter.created_after must be before filter.created_before' };
+  }
+
+  if (body.tags !== undefined) {
+    const tags = parseTags(body.tags);
+    if ('error' in tags) return { error: `filter.tags: ${tags.error}` };
+    filter.tags = tags.tags;
+  }
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || body.title.trim().length === 0) {
+      return { error: 'filter.title must be a non-empty string' };
+    }
+    filter.titlePattern = body.title.trim();
+  }
+
+  return { filter };
+}
+
+/**
+ * One-line description of a filter, for trace details
+ */
+export function describeQueryFilter(filter: RetrievalFilter): string {
+  const parts = [
+    filter.documentIds?.length ? `${filter.documentIds.length} document(s)` : null,
+    filter.docTypes?.length ? `types ${filter.docTypes.join(', ')}` : null,
+    filter.sources?.length ? `sources ${filter.sources.join(', ')}` : null,
+    filter.createdAfter ? `from ${filter.createdAfter.toISOString().slice(0, 10)}` : null,
+    filter.createdBefore ? `before ${filter.createdBefore.toISOString().slice(0, 10)}` : null,
+    filter.tags?.length ? `tags ${filter.tags.join(', ')}` : null,
+    filter.titlePattern ? `title "${filter.titlePattern}"` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join('; ') : 'none';
+}
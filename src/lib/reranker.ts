@@ -0,0 +1,114 @@
+/**
+ * Local Cross-Encoder Reranker
+ * Scores (query, passage) pairs jointly with Transformers.js, which is far more
+ * precise than comparing independently computed embeddings
+ * Runs offline once the model is cached
+ */
+
+import {
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  type PreTrainedTokenizer,
+  type PreTrainedModel,
+} from '@xenova/transformers';
+
+// ms-marco-MiniLM-L-6-v2: trained on MS MARCO passage ranking, 22.7M parameters
+const RERANK_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// Pairs scored per forward pass (keeps memory bounded on large candidate sets)
+const RERANK_BATCH_SIZE = 8;
+
+interface Reranker {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+let reranker: Reranker | null = null;
+let initializationPromise: Promise<Reranker> | null = null;
+
+/**
+ * Initialize the cross-encoder model
+ */
+async function initializeReranker(): Promise<Reranker> {
+  if (reranker) {
+    return reranker;
+  }
+
+  if (initializationPromise) {
+    return initializationPromise;
+  }
+
+  initializationPromise = (async () => {
+    try {
+      console.log('Initializing local reranker model...');
+
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(RERANK_MODEL, {
+          cache_dir: './.embedding-cache',
+        }),
+        AutoModelForSequenceClassification.from_pretrained(RERANK_MODEL, {
+          cache_dir: './.embedding-cache',
+        }),
+      ]);
+
+      reranker = { tokenizer, model };
+      console.log('Local reranker model initialized successfully');
+      return { tokenizer, model };
+    } catch (error) {
+      console.error('Failed to initialize local reranker model:', error);
+      reranker = null;
+      initializationPromise = null;
+      throw error;
+    }
+  })();
+
+  return initializationPromise;
+}
+
+/**
+ * Score how relevant each passage is to the query
+ * @returns One score per passage in (0, 1), in input order
+ */
+export async function scorePassages(query: string, passages: string[]): Promise<number[]> {
+  if (passages.length === 0) return [];
+
+  const { tokenizer, model } = await initializeReranker();
+  const scores: number[] = [];
+
+  for (let i = 0; i < passages.length; i += RERANK_BATCH_SIZE) {
+    const batch = passages.slice(i, i + RERANK_BATCH_SIZE);
+
+    // Query and passage are encoded together as one sequence pair;
+    // truncation keeps long passages within the model's 512 token window
+    const inputs = tokenizer(new Array(batch.length).fill(query), {
+      text_pair: batch,
+      padding: true,
+      truncation: true,
+    });
+
+    const { logits } = await model(inputs);
+
+    // One relevance logit per pair
+    for (const logit of Array.from(logits.data as Float32Array)) {
+      scores.push(1 / (1 + Math.exp(-logit)));
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Reorder items by cross-encoder relevance and keep the best `limit`
+ */
+export async function rerank<T extends { text: string }>(
+  query: string,
+  items: T[],
+  limit: number
+): Promise<Array<T & { rerankScore: number }>> {
+  const scores = await scorePassages(query, items.map(item => item.text));
+
+  return items
+    .map((item, i) => ({ ...item, rerankScore: scores[i] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, limit);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fuseRankings, type RetrievalSettings } from './retrieval';
+
+vi.mock('./db', () => ({ prisma: {} }));
+vi.mock('./embedding_providers', () => ({}));
+vi.mock('./reranker', () => ({}));
+
+const equalWeights: RetrievalSettings = { vectorWeight: 1, keywordWeight: 1, rrfK: 60 };
+
+const ranked = (...pointIds: string[]) => pointIds.map((pointId, i) => ({ pointId, score: 1 - i / 10 }));
+
+describe('fuseRankings', () => {
+  it('scores each list as weight / (k + rank)', () => {
+    const fused = fuseRankings(ranked('a', 'b'), [], equalWeights, 10);
+
+    expect(fused).toEqual([
+      ['a', { score: 1 / 61, vectorScore: 1 }],
+      ['b', { score: 1 / 62, vectorScore: 0.9 }],
+    ]);
+  });
+
+  it('sums the scores of a point found by both searches', () => {
+    const fused = fuseRankings(ranked('a', 'b'), ranked('b', 'c'), equalWeights, 10);
+
+    expect(fused.map(([pointId]) => pointId)).toEqual(['b', 'a', 'c']);
+    expect(fused[0][1]).toEqual({ score: 1 / 62 + 1 / 61, vectorScore: 0.9, keywordScore: 1 });
+  });
+
+  it('lets a heavier list win ties of rank', () => {
+    const settings = { vectorWeight: 1, keywordWeight: 2, rrfK: 60 };
+
+    const fused = fuseRankings(ranked('vector-top'), ranked('keyword-top'), settings, 10);
+
+    expect(fused.map(([pointId]) => pointId)).toEqual(['keyword-top', 'vector-top']);
+    expect(fused[0][1].score).toBeCloseTo(2 / 61);
+  });
+
+  it('ignores a list with zero weight in the order', () => {
+    const settings = { vectorWeight: 1, keywordWeight: 0, rrfK: 60 };
+
+    const fused = fuseRankings(ranked('a', 'b'), ranked('b', 'a'), settings, 10);
+
+    expect(fused.map(([pointId]) => pointId)).toEqual(['a', 'b']);
+  });
+
+  it('flattens rank differences as k grows', () => {
+    const gap = (rrfK: number) => {
+      const [[, first], [, second]] = fuseRankings(ranked('a', 'b'), [], { ...equalWeights, rrfK }, 10);
+      return first.score / second.score;
+    };
+
+    expect(gap(1)).toBeGreaterThan(gap(60));
+    expect(gap(60)).toBeCloseTo(62 / 61);
+  });
+
+  it('keeps the best candidates up to the limit', () => {
+    const fused = fuseRankings(ranked('a', 'b', 'c'), ranked('c', 'd'), equalWeights, 2);
+
+    expect(fused.map(([pointId]) => pointId)).toEqual(['c', 'a']);
+  });
+
+  it('returns nothing when both searches are empty', () => {
+    expect(fuseRankings([], [], equalWeights, 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Hybrid Retrieval
+ * Fuses dense vector search (Qdrant) with keyword search (Postgres full-text)
+ * using weighted reciprocal rank fusion, so exact identifiers like policy
+ * numbers, incident IDs and error codes are found as well as paraphrases
+ * The fused candidates are then reranked by a local cross-encoder
+ * Document metadata filters (source, creation date, title) are resolved in
+ * Postgres to a document set that both searches are restricted to
+ */
+
+import { Prisma, type DocumentSource } from '@prisma/client';
+import { prisma } from './db';
+import { embedForTenant, getTenantEmbedding } from './embedding_providers';
+import { rerank } from './reranker';
+
+export interface RetrievalFilter {
+  docTypes?: string[]; // Document categories (POLICY, INCIDENT, ...)
+  documentIds?: string[];
+  tags?: string[]; // Documents must carry every tag
+  sources?: DocumentSource[];
+  createdAfter?: Date; // Inclusive
+  createdBefore?: Date; // Exclusive
+  titlePattern?: string; // Case-insensitive; * matches any text, otherwise a substring
+}
+
+export interface RetrievalOptions {
+  query: string;
+  tenantId: string;
+  limit?: number;
+  filter?: RetrievalFilter;
+  rerank?: boolean; // Cross-encoder reranking of fused candidates (default: on)
+}
+
+export interface RetrievedChunk {
+  pointId: string; // Qdrant point id (DocumentChunk.qdrantPointId)
+  chunkId: string;
+  documentId: string;
+  title: string;
+  docType: string; // Document category
+  text: string;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  score: number; // Fused RRF score
+  vectorScore?: number; // Cosine similarity, when found by vector search
+  keywordScore?: number; // ts_rank_cd, when found by keyword search
+  rerankScore?: number; // Cross-encoder relevance in (0, 1), when reranked
+}
+
+export interface RetrievalSettings {
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+}
+
+const DEFAULT_SETTINGS: RetrievalSettings = {
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+};
+
+// Each ranked list is over-fetched so fusion has enough candidates to reorder
+const CANDIDATE_MULTIPLIER = 4;
+const MIN_CANDIDATES = 20;
+
+// Fused candidates passed to the cross-encoder
+const RERANK_CANDIDATES = 40;
+
+/**
+ * Get a tenant's fusion weights (defaults when not configured)
+ */
+export async function getRetrievalSettings(tenantId: string): Promise<RetrievalSettings> {
+  const settings = await prisma.tenantSettings.findUnique({
+    where: { tenantId },
+  });
+
+  if (!settings) return DEFAULT_SETTINGS;
+
+  return {
+    vectorWeight: settings.vectorWeight,
+    keywordWeight: settings.keywordWeight,
+    rrfK: settings.rrfK,
+  };
+}
+
+/**
+ * Retrieve the most relevant chunks for a query
+ * Single entry point for every Q&A path
+ */
+export async function retrieveChunks(options: RetrievalOptions): Promise<RetrievedChunk[]> {
+  const { query, tenantId, limit = 5 } = options;
+  const filter = await resolveDocumentScope(tenantId, options.filter || {});
+  if (!filter) return [];
+
+  const shouldRerank = (options.rerank ?? true) && process.env.RERANKER_ENABLED !== 'false';
+  const settings = await getRetrievalSettings(tenantId);
+  const fusedLimit = shouldRerank ? Math.max(limit, RERANK_CANDIDATES) : limit;
+  const candidates = Math.max(fusedLimit * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
+
+  const [vectorResults, keywordResults] = await Promise.all([
+    settings.vectorWeight > 0 ? vectorSearch(query, tenantId, candidates, filter) : [],
+    settings.keywordWeight > 0 ? keywordSearch(query, tenantId, candidates, filter) : [],
+  ]);
+
+  const ranked = fuseRankings(vectorResults, keywordResults, settings, fusedLimit);
+  if (ranked.length === 0) return [];
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: {
+      qdrantPointId: { in: ranked.map(([pointId]) => pointId) },
+    },
+    include: {
+      document: {
+        select: {
+          id: true,
+          title: true,
+          category: true,
+        },
+      },
+    },
+  });
+
+  const chunksByPointId = new Map(chunks.map(chunk => [chunk.qdrantPointId, chunk]));
+
+  // Keep fused order; drop points whose chunk rows no longer exist
+  const results: RetrievedChunk[] = ranked.flatMap(([pointId, scores]) => {
+    const chunk = chunksByPointId.get(pointId);
+    if (!chunk) return [];
+
+    return [{
+      pointId,
+      chunkId: chunk.id,
+      documentId: chunk.document.id,
+      title: chunk.document.title,
+      docType: chunk.document.category,
+      text: chunk.text,
+      pageNumber: chunk.pageNumber,
+      sectionTitle: chunk.sectionTitle,
+      ...scores,
+    }];
+  });
+
+  if (!shouldRerank || results.length <= 1) {
+    return results.slice(0, limit);
+  }
+
+  try {
+    return await rerank(query, results, limit);
+  } catch (error) {
+    // Model unavailable (e.g. not cached yet and offline) - fused order is still good
+    console.warn('Reranking failed, using fused order:', error);
+    return results.slice(0, limit);
+  }
+}
+
+export interface FusedScores {
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+}
+
+/**
+ * Weighted reciprocal rank fusion: score = sum(weight / (k + rank)), rank from 1
+ * @returns Up to limit [pointId, scores] pairs, best first
+ */
+export function fuseRankings(
+  vectorResults: Array<{ pointId: string; score: number }>,
+  keywordResults: Array<{ pointId: string; score: number }>,
+  settings: RetrievalSettings,
+  limit: number
+): Array<[string, FusedScores]> {
+  const fused = new Map<string, FusedScores>();
+
+  vectorResults.forEach((result, rank) => {
+    const entry = fused.get(result.pointId) || { score: 0 };
+    entry.score += settings.vectorWeight / (settings.rrfK + rank + 1);
+    entry.vectorScore = result.score;
+    fused.set(result.pointId, entry);
+  });
+
+  keywordResults.forEach((result, rank) => {
+    const entry = fused.get(result.pointId) || { score: 0 };
+    entry.score += settings.keywordWeight / (settings.rrfK + rank + 1);
+    entry.keywordScore = result.score;
+    fused.set(result.pointId, entry);
+  });
+
+  return Array.from(fused.entries())
+    .sort(([, a], [, b]) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Narrow a filter's document set by the metadata only Postgres holds
+ * @returns The filter restricted to the matching documents, or null if none match
+ */
+async function resolveDocumentScope(
+  tenantId: string,
+  filter: RetrievalFilter
+): Promise<RetrievalFilter | null> {
+  const { sources, createdAfter, createdBefore, titlePattern, documentIds } = filter;
+  if (!sources?.length && !createdAfter && !createdBefore && !titlePattern) {
+    return filter;
+  }
+
+  const clauses: Prisma.Sql[] = [Prisma.sql`d."tenantId" = ${tenantId}`];
+  if (sources && sources.length > 0) {
+    clauses.push(Prisma.sql`d."source"::text = ANY(${sources})`);
+  }
+  if (createdAfter) {
+    clauses.push(Prisma.sql`d."createdAt" >= ${createdAfter}`);
+  }
+  if (createdBefore) {
+    clauses.push(Prisma.sql`d."createdAt" < ${createdBefore}`);
+  }
+  if (titlePattern) {
+    clauses.push(Prisma.sql`d."title" ILIKE ${toLikePattern(titlePattern)}`);
+  }
+  if (documentIds && documentIds.length > 0) {
+    clauses.push(Prisma.sql`d."id" = ANY(${documentIds})`);
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT d."id" FROM "Document" d
+    WHERE ${Prisma.join(clauses, ' AND ')}
+  `;
+
+  if (rows.length === 0) return null;
+  return { ...filter, documentIds: rows.map(row => row.id) };
+}
+
+/**
+ * Title pattern to an ILIKE pattern: * is the wildcard, % and _ are literal
+ */
+function toLikePattern(pattern: string): string {
+  const escaped = pattern.replace(/[\\%_]/g, char => `\\${char}`);
+  return pattern.includes('*') ? escaped.replace(/\*/g, '%') : `%${escaped}%`;
+}
+
+/**
+ * Dense similarity search in Qdrant
+ */
+async function vectorSearch(
+  query: string,
+  tenantId: string,
+  limit: number,
+  filter: RetrievalFilter
+): Promise<Array<{ pointId: string; score: number }>> {
+  // Queries must be embedded by the same provider as the tenant's chunks
+  const tenantEmbedding = await getTenantEmbedding(tenantId);
+  const embedding = await embedForTenant(tenantEmbedding, query);
+  const results = await tenantEmbedding.collection.search(embedding, tenantId, { limit, filter });
+
+  return results.map(r => ({ pointId: r.id, score: r.score }));
+}
+
+/**
+ * Keyword search over DocumentChunk.text with Postgres full-text search
+ * Terms are OR-ed so partial matches still rank; ts_rank_cd rewards chunks
+ * containing more of the terms close together (e.g. all parts of "INC-2024-0042")
+ */
+async function keywordSearch(
+  query: string,
+  tenantId: string,
+  limit: number,
+  filter: RetrievalFilter
+): Promise<Array<{ pointId: string; score: number }>> {
+  const terms = Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []));
+  if (terms.length === 0) return [];
+
+  // Quoted lexemes are safe inside to_tsquery; the config still stems them
+  // and drops stop words
+  const tsquery = terms.map(term => `'${term}'`).join(' | ');
+
+  const docTypeClause = filter.docTypes && filter.docTypes.length > 0
+    ? Prisma.sql`AND d."category"::text = ANY(${filter.docTypes})`
+    : Prisma.empty;
+
+  const documentClause = filter.documentIds && filter.documentIds.length > 0
+    ? Prisma.sql`AND c."documentId" = ANY(${filter.documentIds})`
+    : Prisma.empty;
+
+  const tagClause = filter.tags && filter.tags.length > 0
+    ? Prisma.sql`AND d."tags" @> ${filter.tags}::text[]`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<Array<{ pointId: string; rank: number }>>`
+    SELECT c."qdrantPointId" AS "pointId",
+           ts_rank_cd(to_tsvector('english', c."text"), query) AS rank
+    FROM "DocumentChunk" c
+    JOIN "Document" d ON d."id" = c."documentId",
+         to_tsquery('english', ${tsquery}) query
+    WHERE c."tenantId" = ${tenantId}
+      AND to_tsvector('english', c."text") @@ query
+      ${docTypeClause}
+      ${documentClause}
+      ${tagClause}
+    ORDER BY rank DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(row => ({ pointId: row.pointId, score: Number(row.rank) }));
+}
+
+/**
+ * Unique documents behind a set of chunks, for trace documentsUsed
+ * Each document carries the best rerank score among its chunks
+ */
+export function documentsFromChunks(
+  chunks: Array<{ documentId: string; title: string; rerankScore?: number }>
+): Array<{ id: string; title: string; rerankScore?: number }> {
+  const documents = new Map<string, { id: string; title: string; rerankScore?: number }>();
+
+  for (const chunk of chunks) {
+    const existing = documents.get(chunk.documentId);
+    if (!existing) {
+      documents.set(chunk.documentId, {
+        id: chunk.documentId,
+        title: chunk.title,
+        rerankScore: chunk.rerankScore,
+      });
+    } else if (chunk.rerankScore !== undefined && (existing.rerankScore ?? -1) < chunk.rerankScore) {
+      existing.rerankScore = chunk.rerankScore;
+    }
+  }
+
+  return Array.from(documents.values());
+}
@@ -0,0 +1,45 @@
+/**
+ * Document Tags
+ * Free-form labels (team, region, project...) set at ingest, by FileSense
+ * folder rules or by users. Stored on the Document and in every Qdrant point
+ * payload, so queries can be scoped with context tags
+ */
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_\-.:/]*$/;
+
+/**
+ * Normalize a tag: trimmed, lowercase, inner whitespace as dashes
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Validate tags given as an array or a comma-separated string
+ * @returns The normalized, deduplicated tags, or an error message
+ */
+export function parseTags(input: unknown): { tags: string[] } | { error: string } {
+  const raw = typeof input === 'string'
+    ? input.split(',')
+    : Array.isArray(input) && input.every(t => typeof t === 'string')
+      ? input as string[]
+      : null;
+
+  if (!raw) {
+    return { error: 'Tags must be an array of strings or a comma-separated string' };
+  }
+
+  const tags = Array.from(new Set(raw.map(normalizeTag).filter(Boolean)));
+
+  const invalid = tags.find(t => t.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(t));
+  if (invalid) {
+    return { error: `Invalid tag "${invalid}": use letters, digits and - _ . : / (max ${MAX_TAG_LENGTH} characters)` };
+  }
+  if (tags.length > MAX_TAGS) {
+    return { error: `Too many tags (max ${MAX_TAGS})` };
+  }
+
+  return { tags };
+}
@@ -0,0 +1,76 @@
+/**
+ * Agent Types
+ * Shared by every Q&A mode, the orchestrator that runs them and the UI that
+ * renders their traces
+ */
+
+import type { Citation } from '../citations';
+import type { ConversationTurn, MultimodalFile } from '../gemini';
+import type { TenantModels } from '../llm';
+import type { RetrievalFilter } from '../retrieval';
+
+/**
+ * - standard: function calling agent
+ * - deep: single long-form reasoning call over retrieved evidence
+ * - web: like deep, with web search results added to the evidence
+ * - pipeline: planner, retriever, gatekeeper, analyst, auditor, re-analysis, writer
+ * - multimodal: analysis of attached images, videos or documents
+ */
+export type QueryMode = 'standard' | 'deep' | 'web' | 'pipeline' | 'multimodal';
+
+export interface AgentTraceStep {
+  step: string;
+  summary: string;
+  durationMs: number;
+  documentsUsed: Array<{
+    id: string;
+    title: string;
+    rerankScore?: number; // Best cross-encoder score among the document's chunks
+  }>;
+  status?: string;
+  details?: string;
+}
+
+/**
+ * Progress callbacks for streaming clients
+ * onStep fires as each trace step completes; onToken receives answer text as
+ * the model generates it. Text streamed before a tool call is preamble, not
+ * the answer - clients should discard drafted text when the next step arrives
+ */
+export interface AgentStreamHandlers {
+  onStep?: (step: AgentTraceStep) => void;
+  onToken?: (text: string) => void;
+}
+
+/**
+ * What a mode is asked to answer
+ */
+export interface ModeRequest {
+  question: string; // Standalone form for follow-ups
+  tenantId: string;
+  history: ConversationTurn[]; // Prior turns of the conversation, oldest first
+  filter: RetrievalFilter; // Applies to every knowledge search
+  files: MultimodalFile[];
+  useWebSearch: boolean;
+  models: TenantModels; // The tenant's model for each agent role
+  handlers: AgentStreamHandlers;
+}
+
+/**
+ * Retrieval work of a run, persisted as QaMetrics
+ */
+export interface RetrievalStats {
+  retrievalK: number; // Chunks requested across all searches
+  retrievalUsed: number; // Chunks given to the model
+  retrievalLatencyMs: number;
+}
+
+export interface ModeResult {
+  answer: string;
+  citations: Citation[]; // Resolved [n] markers of the answer
+  qualityScore: number;
+  trace: AgentTraceStep[];
+  retrieval: RetrievalStats;
+}
+
+export type ModeRunner = (request: ModeRequest) => Promise<ModeResult>;
@@ -3,9 +3,7 @@
  * Provides real-time web data retrieval for enhanced reasoning
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import type { LlmClient, TenantModels } from './llm';
 
 export interface WebSearchResult {
   title: string;
@@ -22,22 +20,14 @@ export interface WebSearchResponse {
 }
 
 /**
- * Search the web using Google's search grounding (via Gemini)
+ * Search the web, summarized by the tenant's web_search model
  */
-export async function searchWeb(query: string): Promise<WebSearchResponse> {
+export async function searchWeb(llm: LlmClient, query: string): Promise<WebSearchResponse> {
   const startTime = Date.now();
   
   console.log(`🌐 Web Search: "${query}"`);
   
   try {
-    // Use Gemini with Google Search grounding
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-1.5-flash',
-      generationConfig: {
-        temperature: 0.3,
-      }
-    });
-
     const prompt = `Search the web for current, factual information about: "${query}"
     
 Please provide:
@@ -48,9 +38,7 @@ Please provide:
 
 Format your response as a structured summary with source citations.`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const text = await llm.generateText(prompt, { temperature: 0.3 });
     
     // Parse the response into structured results
     // For now, we'll return the full text as a single result
@@ -81,6 +69,7 @@ Format your response as a structured summary with source citations.`;
  * Perform deep reasoning with web context
  */
 export async function deepReasonWithWeb(
+  models: Pick<TenantModels, 'web_search' | 'deep_reasoner'>,
   question: string,
   localContext?: string
 ): Promise<string> {
@@ -88,16 +77,7 @@ export async function deepReasonWithWeb(
   
   try {
     // First, search the web for current information
-    const webResults = await searchWeb(question);
-    
-    // Use Gemini's advanced reasoning with both local and web context
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-1.5-pro', // Use Pro for deep reasoning
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 2048,
-      }
-    });
+    const webResults = await searchWeb(models.web_search, question);
 
     const contextSection = localContext 
       ? `\n\n**INTERNAL KNOWLEDGE BASE:**\n${localContext}\n\n`
@@ -122,10 +102,8 @@ ${contextSection}${webSection}
 
 Provide a thorough, well-reasoned response:`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    
-    return response.text();
+    // Deep reasoning over both local and web context
+    return await models.deep_reasoner.generateText(prompt, { temperature: 0.7, maxOutputTokens: 2048 });
   } catch (error: any) {
     console.error('Deep reasoning error:', error);
     throw new Error(`Deep reasoning failed: ${error.message}`);
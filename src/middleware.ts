@@ -7,7 +7,12 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/demo(.*)',
   '/api/external(.*)',
-  '/api/ingest',
+  '/api/ingest(.*)',
+  '/api/knowledge(.*)', // Session, x-api-key or public demo tenant, checked in the route
+  '/api/agent(.*)', // Session, x-api-key or public demo tenant, checked in the route
+  '/api/documents(.*)', // Session or x-api-key, checked in the route
+  '/api/settings(.*)', // Session or x-api-key, checked in the route
+  '/api/opus(.*)', // Session or x-api-key, checked in the route
 ]);
 
 // Named export required for Next.js 16+ proxy convention